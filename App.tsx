@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Header from './components/Header';
 import Board from './components/Board';
 import Tile from './components/Tile';
@@ -8,13 +8,36 @@ import StatsModal from './components/StatsModal';
 import AboutPanel from './components/AboutPanel';
 import MenuPanel from './components/MenuPanel';
 import OptionsModal from './components/OptionsModal';
-import { Grid, Coords, GameStatus, CellStatus, CellData } from './types';
-import { getDailyPuzzle, getDailySeed } from './utils/daily';
-import { generateInitialState, updateColors, checkWin } from './utils/gameLogic';
-import { TOTAL_SWAPS } from './constants';
+import ArchiveModal from './components/ArchiveModal';
+import StorageNotice from './components/StorageNotice';
+import NewDayNotice from './components/NewDayNotice';
+import { Grid, Coords, CellStatus, CellData, Direction } from './types';
+import { getPuzzleById, getDailySeed } from './utils/daily';
+import { getOptimalPath, moveCursor, selectTile } from './utils/gameLogic';
 import { useStats } from './utils/useStats';
-import { saveGameState, loadGameState } from './utils/statsDb';
+import { useArchive } from './utils/useArchive';
+import {
+  saveGameState,
+  loadGameState,
+  saveArchiveGameState,
+  loadArchiveGameState,
+  moveGameToArchive,
+  SavedGameState,
+  StoreSnapshot,
+} from './utils/statsDb';
 import { useDarkMode } from './utils/useDarkMode';
+import { useUndoMode } from './utils/useUndoMode';
+import { useHintCost } from './utils/useHintCost';
+import { useInputMode } from './utils/useInputMode';
+import { useTileTheme } from './utils/useTileTheme';
+import { useSync } from './utils/useSync';
+import { useStorageKind } from './utils/useStorageKind';
+import { useTodayPuzzleId } from './utils/useTodayPuzzleId';
+import { useTabChannel } from './utils/useTabChannel';
+import { useWaffleGame } from './utils/useWaffleGame';
+import { countSwapsMade } from './utils/gameReducer';
+import { TabMessage } from './utils/tabSync';
+import { getSwapAnnouncement, getSwapsLeftText } from './utils/accessibility';
 
 interface DragTarget {
   row: number;
@@ -41,22 +64,97 @@ interface SwappingState {
   toData: CellData;
   futureFromStatus: CellStatus;
   futureToStatus: CellStatus;
+  flySource?: boolean; // Also fly the moved tile over from its cell (swaps not made by dragging)
 }
 
+const KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+// Screen rect of a board tile
+const getTileRect = (coords: Coords) => {
+  const el = document.querySelector(`[data-waffle-tile][data-row="${coords.row}"][data-col="${coords.col}"]`);
+  if (!el) return null;
+  const rect = el.getBoundingClientRect();
+  return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+};
+
 const App: React.FC = () => {
-  const [grid, setGrid] = useState<Grid | null>(null);
-  const [solution, setSolution] = useState<string[][] | null>(null);
-  const [swaps, setSwaps] = useState<number>(TOTAL_SWAPS);
-  const [status, setStatus] = useState<GameStatus>('PLAYING');
+  // Past puzzle being played from the archive (null = the daily puzzle)
+  const [archiveId, setArchiveId] = useState<number | null>(null);
+  // Keyboard and tap play: the focused cell and the tile picked up to be swapped
+  const [cursor, setCursor] = useState<Coords | null>(null);
+  const [selected, setSelected] = useState<Coords | null>(null);
+  // Read out by screen readers after every move
+  const [announcement, setAnnouncement] = useState('');
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isStatsOpen, setIsStatsOpen] = useState(false);
   const [isAboutOpen, setIsAboutOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isOptionsOpen, setIsOptionsOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isStorageNoticeDismissed, setIsStorageNoticeDismissed] = useState(false);
   const [hasRecordedResult, setHasRecordedResult] = useState(false);
+  // Step of the optimal solution being shown on the board (null = showing the player's grid)
+  const [optimalStep, setOptimalStep] = useState<number | null>(null);
 
-  const { stats, recordResult } = useStats();
+  const { stats, recordResult, refreshStats } = useStats();
+  const { results: archiveResults, recordResult: recordArchiveResult, refreshResults: refreshArchiveResults } = useArchive();
   const { isDarkMode, toggleDarkMode } = useDarkMode();
+  const { undoMode, setUndoMode } = useUndoMode();
+  const { hintCost, setHintCost } = useHintCost();
+  const { inputMode, setInputMode } = useInputMode();
+  const { tileTheme, setTileTheme, showMarkers, toggleMarkers } = useTileTheme();
+  const storageKind = useStorageKind();
+  const todayPuzzleId = useTodayPuzzleId();
+  // Daily puzzle on the board: stays the old day's after midnight until the player moves on
+  const [dailyId, setDailyId] = useState(todayPuzzleId);
+  const tabChannel = useTabChannel();
+
+  // Set while a daily game left open past midnight moves to the archive: moves are
+  // refused until it is back on the board as an archive game, or they would be saved
+  // to the daily store under the old day
+  const movingToArchiveRef = useRef(false);
+
+  // Save the game on the board and hand it to the other tabs
+  const saveState = useCallback(async (state: SavedGameState) => {
+    if (movingToArchiveRef.current) return;
+    const isArchive = archiveId !== null;
+    await (isArchive ? saveArchiveGameState : saveGameState)(state);
+    tabChannel?.post({ type: 'state', archive: isArchive, state });
+  }, [archiveId, tabChannel]);
+
+  const {
+    game,
+    solution,
+    canUndo,
+    canHint,
+    startGame,
+    adoptGame,
+    resetGame,
+    previewSwap,
+    swap,
+    undo,
+    requestHint: takeHint,
+  } = useWaffleGame({ saveState, undoMode, hintCost });
+  const { puzzleId, grid, swaps, status, moves, hintsUsed, hint } = game;
+
+  // A sync may have brought a later game of the daily puzzle on the board from
+  // another device; take it over so this device's next move doesn't overwrite it.
+  // A game finished there is recorded here too (the first result stands).
+  const handleSynced = useCallback((synced: StoreSnapshot) => {
+    refreshStats();
+    if (archiveId !== null) return;
+    // adoptGame skips the games of other puzzles
+    if (!synced.gameState.some(state => adoptGame(state))) return;
+    setSelected(null);
+    setOptimalStep(null);
+  }, [archiveId, adoptGame, refreshStats]);
+
+  const { endpoint: syncEndpoint, setEndpoint: setSyncEndpoint, playerId: syncId, setPlayerId: setSyncId, syncStatus, syncNow } = useSync(handleSynced);
 
   const [dragging, setDragging] = useState<DraggingState | null>(null);
   const [swapping, setSwapping] = useState<SwappingState | null>(null);
@@ -74,93 +172,248 @@ const App: React.FC = () => {
   const closeMenu = useCallback(() => setIsMenuOpen(false), []);
   const openOptions = useCallback(() => setIsOptionsOpen(true), []);
   const closeOptions = useCallback(() => setIsOptionsOpen(false), []);
+  const openArchive = useCallback(() => {
+    refreshArchiveResults();
+    setIsArchiveOpen(true);
+  }, [refreshArchiveResults]);
+  const closeArchive = useCallback(() => setIsArchiveOpen(false), []);
+
+  // Today's puzzle is always played as the daily game, never from the archive
+  const selectPuzzle = useCallback((id: number) => {
+    const todayId = getDailySeed();
+    setIsArchiveOpen(false);
+    setDailyId(todayId);
+    setArchiveId(id === todayId ? null : id);
+  }, []);
+  const backToDaily = useCallback(() => {
+    setDailyId(getDailySeed());
+    setArchiveId(null);
+  }, []);
 
-  // Stable noop for floating tile
-  const noop = useCallback(() => {}, []);
+  // Another tab saved a game or recorded a result. A tab showing the same
+  // puzzle takes the game over if it is ahead of its own (saved later, or
+  // finished), rather than overwriting it with an older copy on the next move.
+  const handleTabMessage = useCallback((message: TabMessage) => {
+    if (message.type === 'recorded') {
+      if (message.archive) refreshArchiveResults();
+      else refreshStats();
+      return;
+    }
 
-  useEffect(() => {
-    const initGame = async () => {
-      const puzzleId = getDailySeed();
-      const savedState = await loadGameState(puzzleId);
+    if (message.archive !== (archiveId !== null) || !adoptGame(message.state)) return;
+    // Finished games were recorded by whoever finished them
+    if (message.state.status !== 'PLAYING') setHasRecordedResult(true);
+    setSelected(null);
+    setOptimalStep(null);
+  }, [archiveId, adoptGame, refreshStats, refreshArchiveResults]);
 
-      if (savedState) {
-        setGrid(savedState.grid);
-        setSolution(savedState.solution);
-        setSwaps(savedState.swaps);
-        setStatus(savedState.status);
+  useEffect(() => tabChannel?.subscribe(handleTabMessage), [tabChannel, handleTabMessage]);
 
-        if (savedState.status !== 'PLAYING') {
-          setHasRecordedResult(true);
-        }
-      } else {
-        const puzzle = getDailyPuzzle();
-        setSolution(puzzle.solution);
-        const initialGrid = generateInitialState(puzzle.solution);
-        setGrid(initialGrid);
+  // Stable noop for floating tile
+  const noop = useCallback(() => {}, []);
 
-        if (checkWin(initialGrid)) {
-          setStatus('WON');
-        }
+  useEffect(() => {
+    const isArchive = archiveId !== null;
+    const id = archiveId ?? dailyId;
+    let cancelled = false;
 
-        await saveGameState({
-          puzzleId,
-          grid: initialGrid,
-          swaps: TOTAL_SWAPS,
-          status: 'PLAYING',
-          solution: puzzle.solution,
-        });
+    const initGame = async () => {
+      const savedState = isArchive ? await loadArchiveGameState(id) : await loadGameState(id);
+      // Another puzzle was selected while this one was loading
+      if (cancelled) return;
+
+      const { game: started, resumed } = startGame(id, savedState);
+      // Finished games were recorded when they were finished
+      if (resumed && started.status !== 'PLAYING') {
+        setHasRecordedResult(true);
       }
     };
 
+    // Start from a clean slate when switching between daily and archive puzzles
+    movingToArchiveRef.current = false;
+    resetGame();
+    setCursor(null);
+    setSelected(null);
+    setAnnouncement('');
+    setHasRecordedResult(false);
+    setOptimalStep(null);
+
     initGame();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveId, dailyId, startGame, resetGame]);
+
+  // Midnight passed during a daily game: it carries on from the archive, so it
+  // is neither saved nor recorded as the new day's game
+  useEffect(() => {
+    if (archiveId !== null || puzzleId !== dailyId || dailyId === todayPuzzleId || status !== 'PLAYING') return;
+    let cancelled = false;
+    movingToArchiveRef.current = true;
+    moveGameToArchive(dailyId).then(() => {
+      if (cancelled) movingToArchiveRef.current = false;
+      else setArchiveId(dailyId);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [archiveId, puzzleId, dailyId, todayPuzzleId, status]);
 
   useEffect(() => {
-    if (status !== 'PLAYING' && !hasRecordedResult) {
+    if (status !== 'PLAYING' && !hasRecordedResult && puzzleId !== null) {
       const won = status === 'WON';
       const starsEarned = won ? Math.min(5, Math.max(0, swaps)) : 0;
-      recordResult(won, starsEarned);
+      const recorded = (archive: boolean) => tabChannel?.post({ type: 'recorded', archive, puzzleId });
+      if (archiveId !== null) {
+        recordArchiveResult(puzzleId, won, starsEarned, hintsUsed).then(() => recorded(true));
+      } else {
+        // Also a daily game finished just after midnight, before the day change
+        // was picked up: it counts for its own day
+        recordResult(puzzleId, won, starsEarned, hintsUsed).then(() => {
+          recorded(false);
+          syncNow();
+        });
+      }
       setHasRecordedResult(true);
     }
-  }, [status, swaps, hasRecordedResult, recordResult]);
-
-  const performSwap = useCallback(async (from: Coords, to: Coords) => {
-    if (!grid || !solution || status !== 'PLAYING') return;
-    if (grid[from.row][from.col].status === CellStatus.CORRECT) return;
-    if (grid[to.row][to.col].status === CellStatus.CORRECT) return;
-    if (from.row === to.row && from.col === to.col) return;
-
-    const newGrid = grid.map(r => r.map(c => ({...c})));
-
-    const tempChar = newGrid[from.row][from.col].char;
-    newGrid[from.row][from.col].char = newGrid[to.row][to.col].char;
-    newGrid[to.row][to.col].char = tempChar;
-
-    const coloredGrid = updateColors(newGrid, solution);
-    setGrid(coloredGrid);
-
-    const newSwaps = swaps - 1;
-    setSwaps(newSwaps);
-
-    const isWin = checkWin(coloredGrid);
-    let newStatus: GameStatus = 'PLAYING';
-    if (isWin) {
-      newStatus = 'WON';
-      setStatus('WON');
-    } else if (newSwaps <= 0) {
-      newStatus = 'LOST';
-      setStatus('LOST');
+  }, [status, swaps, hasRecordedResult, recordResult, recordArchiveResult, archiveId, puzzleId, hintsUsed, syncNow, tabChannel]);
+
+  const performSwap = useCallback((from: Coords, to: Coords) => {
+    if (movingToArchiveRef.current) return;
+    const next = swap(from, to);
+    if (!next) return;
+
+    const swapResult = getSwapAnnouncement(next.grid!, from, to, next.swaps);
+    if (next.status === 'WON') setAnnouncement(`${swapResult}. Браво, вафлата е решена!`);
+    else if (next.status === 'LOST') setAnnouncement(`${swapResult}. Крај на играта.`);
+    else setAnnouncement(swapResult);
+  }, [swap]);
+
+  const undoSwap = useCallback(() => {
+    if (movingToArchiveRef.current) return;
+    const next = undo();
+    if (!next) return;
+    setAnnouncement(`Потегот е вратен; ${getSwapsLeftText(next.swaps)}`);
+    setSelected(null);
+  }, [undo]);
+
+  const requestHint = useCallback(() => {
+    if (movingToArchiveRef.current) return;
+    const next = takeHint();
+    if (!next?.hint) return;
+    const { from, to } = next.hint;
+    setAnnouncement(
+      `Помош: заменете ред ${from.row + 1}, колона ${from.col + 1} со ред ${to.row + 1}, колона ${to.col + 1}; ${getSwapsLeftText(next.swaps)}`
+    );
+  }, [takeHint]);
+
+  // Animate a swap between two board tiles, then call onDone once the tiles have landed.
+  // A dragged tile passes where it was dropped from, and doesn't fly over from its cell.
+  const animateSwap = useCallback((
+    from: Coords,
+    to: Coords,
+    before: Grid,
+    after: Grid,
+    onDone: () => void,
+    dropped?: { fromRect: SwappingState['fromRect']; toRect: SwappingState['toRect'] }
+  ) => {
+    const fromRect = dropped?.fromRect ?? getTileRect(from);
+    const toRect = dropped?.toRect ?? getTileRect(to);
+    if (!fromRect || !toRect) {
+      onDone();
+      return;
     }
 
-    const puzzleId = getDailySeed();
-    await saveGameState({
-      puzzleId,
-      grid: coloredGrid,
-      swaps: newSwaps,
-      status: newStatus,
-      solution,
+    setSwapping({
+      from,
+      to,
+      fromRect,
+      toRect,
+      fromData: before[from.row][from.col],
+      toData: before[to.row][to.col],
+      futureFromStatus: after[from.row][from.col].status,
+      futureToStatus: after[to.row][to.col].status,
+      flySource: !dropped
     });
-  }, [grid, solution, status, swaps]);
+
+    setTimeout(() => {
+      onDone();
+      requestAnimationFrame(() => {
+        requestAnimationFrame(() => {
+          setSwapping(null);
+        });
+      });
+    }, 195);
+  }, []);
+
+  // Shortest way to solve this puzzle, from the grid the player started with
+  const optimalPath = useMemo(() => {
+    if (status === 'PLAYING' || !grid || !solution || puzzleId === null) return null;
+    return getOptimalPath(grid, moves, solution, getPuzzleById(puzzleId).initialGrid);
+  }, [status, grid, solution, moves, puzzleId]);
+
+  const showOptimal = useCallback(() => {
+    setOptimalStep(0);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, []);
+  const hideOptimal = useCallback(() => setOptimalStep(null), []);
+
+  useEffect(() => {
+    if (optimalStep === null || !optimalPath || optimalStep >= optimalPath.moves.length) return;
+
+    const timeout = setTimeout(() => {
+      const { from, to } = optimalPath.moves[optimalStep];
+      animateSwap(from, to, optimalPath.frames[optimalStep], optimalPath.frames[optimalStep + 1], () => {
+        setOptimalStep(step => (step === null ? null : step + 1));
+      });
+    }, 700);
+    return () => clearTimeout(timeout);
+  }, [optimalStep, optimalPath, animateSwap]);
+
+  // Pick a tile up, put it back, or swap it with the tile already picked up
+  const selectOrSwap = useCallback((coords: Coords) => {
+    if (!grid || status !== 'PLAYING' || swapping) return;
+    const selection = selectTile(grid, selected, coords);
+    if (!selection) return;
+
+    setSelected(selection.selected);
+    if (!selection.swap) return;
+    const { from, to } = selection.swap;
+    const next = previewSwap(from, to);
+    if (!next) return;
+    animateSwap(from, to, grid, next.grid!, () => performSwap(from, to));
+  }, [grid, status, swapping, selected, previewSwap, animateSwap, performSwap]);
+
+  const isModalOpen = isHelpOpen || isStatsOpen || isAboutOpen || isMenuOpen || isOptionsOpen || isArchiveOpen;
+
+  // Keyboard play: arrows move the cursor, Enter/Space picks a tile up and swaps it onto another, Escape drops it
+  useEffect(() => {
+    if (status !== 'PLAYING' || isModalOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const direction = KEY_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        setCursor(current => (current ? moveCursor(current, direction) : { row: 0, col: 0 }));
+        return;
+      }
+
+      if (e.key === 'Escape') {
+        setSelected(null);
+        return;
+      }
+
+      if (e.key !== 'Enter' && e.key !== ' ') return;
+      // Focused buttons handle Enter/Space themselves
+      if (e.target instanceof HTMLElement && e.target.closest('button, input, a')) return;
+      if (!cursor) return;
+      e.preventDefault();
+      selectOrSwap(cursor);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status, isModalOpen, cursor, selectOrSwap]);
 
   const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>, row: number, col: number) => {
     if (status !== 'PLAYING' || !grid || isHelpOpen) return;
@@ -168,6 +421,16 @@ const App: React.FC = () => {
     const tile = grid[row][col];
     if (tile.status === CellStatus.CORRECT) return;
 
+    // Switching to the pointer hides the keyboard cursor
+    setCursor(null);
+
+    if (inputMode === 'tap') {
+      e.preventDefault();
+      selectOrSwap({ row, col });
+      return;
+    }
+    setSelected(null);
+
     e.preventDefault();
     e.currentTarget.setPointerCapture(e.pointerId);
 
@@ -203,7 +466,7 @@ const App: React.FC = () => {
       targets: validTargets
     });
     hoverTargetRef.current = null;
-  }, [status, grid, isHelpOpen]);
+  }, [status, grid, isHelpOpen, inputMode, selectOrSwap]);
 
   useEffect(() => {
     if (!dragging) return;
@@ -252,32 +515,13 @@ const App: React.FC = () => {
         const target = hoverTargetRef.current;
         const targetElement = dragging.targets.find(t => t.row === target.row && t.col === target.col);
 
-        if (targetElement && solution) {
-          const newGrid = grid.map(r => r.map(c => ({ ...c })));
-          const tempChar = newGrid[dragging.source.row][dragging.source.col].char;
-          newGrid[dragging.source.row][dragging.source.col].char = newGrid[target.row][target.col].char;
-          newGrid[target.row][target.col].char = tempChar;
-          const coloredGrid = updateColors(newGrid, solution);
+        const next = targetElement && previewSwap(dragging.source, target);
 
-          setSwapping({
-            from: dragging.source,
-            to: target,
+        if (targetElement && next) {
+          animateSwap(dragging.source, target, grid, next.grid!, () => performSwap(dragging.source, target), {
             fromRect: { x: dragging.origin.x, y: dragging.origin.y, width: dragging.width, height: dragging.height },
             toRect: { x: targetElement.rect.left, y: targetElement.rect.top, width: targetElement.rect.width, height: targetElement.rect.height },
-            fromData: dragging.tileData,
-            toData: grid[target.row][target.col],
-            futureFromStatus: coloredGrid[dragging.source.row][dragging.source.col].status,
-            futureToStatus: coloredGrid[target.row][target.col].status
           });
-
-          setTimeout(() => {
-            performSwap(dragging.source, target);
-            requestAnimationFrame(() => {
-              requestAnimationFrame(() => {
-                setSwapping(null);
-              });
-            });
-          }, 195);
         }
       }
       setDragging(null);
@@ -291,9 +535,9 @@ const App: React.FC = () => {
       window.removeEventListener('pointermove', onPointerMove);
       window.removeEventListener('pointerup', onPointerUp);
     };
-  }, [dragging, grid, performSwap, solution]);
+  }, [dragging, grid, previewSwap, animateSwap, performSwap]);
 
-  if (!grid) {
+  if (!grid || puzzleId === null) {
     return (
       <div className="h-screen flex items-center justify-center font-bold text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-900">
         Се вчитува...
@@ -308,16 +552,46 @@ const App: React.FC = () => {
         onStatsClick={openStats}
         onAboutClick={openAbout}
         onMenuClick={openMenu}
+        archiveId={archiveId}
       />
 
       <main className="flex-1 w-full max-w-[600px] flex flex-col items-center px-2 relative">
+        <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+        {storageKind && !isStorageNoticeDismissed && (
+          <StorageNotice storageKind={storageKind} onDismiss={() => setIsStorageNoticeDismissed(true)} />
+        )}
+
+        {dailyId !== todayPuzzleId && status === 'PLAYING' && (
+          <NewDayNotice todayPuzzleId={todayPuzzleId} onPlay={backToDaily} />
+        )}
+
+        {archiveId !== null && (
+          <div className="w-full flex items-center justify-between mb-4 px-2">
+            <span className="text-sm font-bold text-gray-500 dark:text-gray-400 tracking-wide">
+              АРХИВА #{archiveId}
+            </span>
+            <button
+              onClick={backToDaily}
+              className="text-sm font-bold text-[#6aaa64] hover:text-[#5a9a54] tracking-wide"
+            >
+              ДЕНЕШНА ВАФЛА →
+            </button>
+          </div>
+        )}
+
         <Board
-          grid={grid}
+          grid={optimalPath && optimalStep !== null ? optimalPath.frames[optimalStep] : grid}
           dragSource={dragging?.source || null}
           swapping={swapping}
           onTilePointerDown={handlePointerDown}
           isGameActive={status === 'PLAYING' && !isHelpOpen}
-          isGameOver={status === 'LOST'}
+          isGameOver={status === 'LOST' && optimalStep === null}
+          hint={status === 'PLAYING' ? hint : null}
+          cursor={status === 'PLAYING' ? cursor : null}
+          selected={status === 'PLAYING' ? selected : null}
+          theme={tileTheme}
+          showMarkers={showMarkers}
         />
 
         <div className="mt-4 mb-4 w-full flex flex-col items-center">
@@ -330,13 +604,56 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {status === 'LOST' && (
+          {status === 'PLAYING' && (
+            <div className="flex items-center gap-2">
+              {undoMode !== 'disabled' && (
+                <button
+                  onClick={undoSwap}
+                  disabled={!canUndo}
+                  aria-label="Врати го последниот потег"
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm tracking-wide text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5} aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 015 5v2M3 10l5 5M3 10l5-5" />
+                  </svg>
+                  ВРАТИ{undoMode === 'penalty' && ' (−1)'}
+                </button>
+              )}
+              <button
+                onClick={requestHint}
+                disabled={!canHint}
+                aria-label={`Помош: предлог за потег (чини ${hintCost} ${hintCost === 1 ? 'потег' : 'потези'})`}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm tracking-wide text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5} aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                </svg>
+                ПОМОШ (−{hintCost})
+              </button>
+            </div>
+          )}
+
+          {optimalPath && optimalStep !== null && (
+            <div className="w-full flex items-center justify-between px-4 py-3 bg-gray-100 dark:bg-gray-800 rounded-lg">
+              <span className="font-bold text-gray-700 dark:text-gray-300 text-sm tracking-wide">
+                ОПТИМАЛНО РЕШЕНИЕ · {optimalStep} / {optimalPath.swaps}
+              </span>
+              <button
+                onClick={hideOptimal}
+                className="text-sm font-bold text-[#6aaa64] hover:text-[#5a9a54] tracking-wide"
+              >
+                ЗАТВОРИ
+              </button>
+            </div>
+          )}
+
+          {status === 'LOST' && optimalStep === null && (
             <div className="w-full bg-[#58595b] py-3 text-center animate-in slide-in-from-bottom duration-500">
               <span className="text-white font-black text-xl tracking-wider">КРАЈ НА ИГРАТА</span>
             </div>
           )}
 
-          {status === 'WON' && (
+          {status === 'WON' && optimalStep === null && (
             <div className="w-full bg-[#6aaa64] py-3 text-center animate-in slide-in-from-bottom duration-500">
               <span className="text-white font-black text-xl tracking-wider">БРАВО!</span>
             </div>
@@ -345,13 +662,28 @@ const App: React.FC = () => {
 
         {status !== 'PLAYING' && (
           <div className="w-full flex justify-center">
-            <ResultModal status={status} swapsRemaining={swaps} solution={solution} stats={stats} grid={grid} />
+            <ResultModal
+              status={status}
+              moves={moves}
+              swapsRemaining={swaps}
+              solution={solution}
+              stats={stats}
+              grid={grid}
+              puzzleId={puzzleId}
+              isArchive={archiveId !== null}
+              swapsUsed={countSwapsMade(game)}
+              hintsUsed={hintsUsed}
+              optimalSwaps={optimalPath?.swaps ?? null}
+              onShowOptimal={showOptimal}
+              onPlayNewPuzzle={backToDaily}
+              theme={tileTheme}
+            />
           </div>
         )}
       </main>
 
-      <HelpModal isOpen={isHelpOpen} onClose={closeHelp} />
-      <StatsModal isOpen={isStatsOpen} onClose={closeStats} stats={stats} />
+      <HelpModal isOpen={isHelpOpen} onClose={closeHelp} theme={tileTheme} showMarkers={showMarkers} />
+      <StatsModal isOpen={isStatsOpen} onClose={closeStats} stats={stats} theme={tileTheme} />
       <AboutPanel
         isOpen={isAboutOpen}
         onClose={closeAbout}
@@ -362,15 +694,40 @@ const App: React.FC = () => {
         isOpen={isMenuOpen}
         onClose={closeMenu}
         onStatsClick={openStats}
+        onArchiveClick={openArchive}
         onAboutClick={openAbout}
         onHelpClick={openHelp}
         onOptionsClick={openOptions}
       />
+      <ArchiveModal
+        isOpen={isArchiveOpen}
+        onClose={closeArchive}
+        todayId={todayPuzzleId}
+        currentPuzzleId={puzzleId}
+        results={archiveResults}
+        onSelectPuzzle={selectPuzzle}
+      />
       <OptionsModal
         isOpen={isOptionsOpen}
         onClose={closeOptions}
         isDarkMode={isDarkMode}
         onToggleDarkMode={toggleDarkMode}
+        tileTheme={tileTheme}
+        onTileThemeChange={setTileTheme}
+        showMarkers={showMarkers}
+        onToggleMarkers={toggleMarkers}
+        inputMode={inputMode}
+        onInputModeChange={setInputMode}
+        undoMode={undoMode}
+        onUndoModeChange={setUndoMode}
+        hintCost={hintCost}
+        onHintCostChange={setHintCost}
+        syncEndpoint={syncEndpoint}
+        onSyncEndpointChange={setSyncEndpoint}
+        syncId={syncId}
+        onSyncIdChange={setSyncId}
+        syncStatus={syncStatus}
+        onSync={syncNow}
       />
 
       {dragging && (
@@ -393,6 +750,8 @@ const App: React.FC = () => {
             isDraggingSource={false}
             onPointerDown={noop}
             style={{ width: '100%', height: '100%' }}
+            theme={tileTheme}
+            showMarkers={showMarkers}
           />
         </div>
       )}
@@ -406,8 +765,12 @@ const App: React.FC = () => {
               width: swapping.toRect.width,
               height: swapping.toRect.height,
               transform: 'scale(1)',
-              animation: 'fly-from-source 200ms ease-in-out forwards'
-            }}
+              animation: 'fly-from-source 200ms ease-in-out forwards',
+              ...(swapping.flySource && {
+                '--swap-dx': `${swapping.fromRect.x - swapping.toRect.x}px`,
+                '--swap-dy': `${swapping.fromRect.y - swapping.toRect.y}px`
+              })
+            } as React.CSSProperties}
           >
             <Tile
               data={{ ...swapping.fromData, status: swapping.futureToStatus }}
@@ -416,6 +779,8 @@ const App: React.FC = () => {
               isDraggingSource={false}
               onPointerDown={noop}
               style={{ width: '100%', height: '100%' }}
+              theme={tileTheme}
+              showMarkers={showMarkers}
             />
           </div>
 
@@ -426,8 +791,10 @@ const App: React.FC = () => {
               top: swapping.fromRect.y,
               width: swapping.fromRect.width,
               height: swapping.fromRect.height,
-              animation: 'fly-from-target 200ms ease-in-out forwards'
-            }}
+              animation: 'fly-from-target 200ms ease-in-out forwards',
+              '--swap-dx': `${swapping.toRect.x - swapping.fromRect.x}px`,
+              '--swap-dy': `${swapping.toRect.y - swapping.fromRect.y}px`
+            } as React.CSSProperties}
           >
             <Tile
               data={{ ...swapping.toData, status: swapping.futureFromStatus }}
@@ -436,25 +803,10 @@ const App: React.FC = () => {
               isDraggingSource={false}
               onPointerDown={noop}
               style={{ width: '100%', height: '100%' }}
+              theme={tileTheme}
+              showMarkers={showMarkers}
             />
           </div>
-
-          <style>{`
-            @keyframes fly-from-source {
-              0% {
-                transform: translate(0, 0) scale(1.1);
-                filter: drop-shadow(0 10px 15px rgba(0,0,0,0.3));
-              }
-              100% {
-                transform: translate(0, 0) scale(1);
-                filter: drop-shadow(0 0px 0px rgba(0,0,0,0));
-              }
-            }
-            @keyframes fly-from-target {
-              0% { transform: translate(${swapping.toRect.x - swapping.fromRect.x}px, ${swapping.toRect.y - swapping.fromRect.y}px); }
-              100% { transform: translate(0, 0); }
-            }
-          `}</style>
         </div>
       )}
     </div>
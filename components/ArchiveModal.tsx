@@ -0,0 +1,126 @@
+import React from 'react';
+import { GameRecord } from '../types';
+import { getPuzzleDateString } from '../utils/daily';
+import { formatDate } from '../utils/calendar';
+
+interface ArchiveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  todayId: number;
+  currentPuzzleId: number | null;
+  results: Record<number, GameRecord>;
+  onSelectPuzzle: (puzzleId: number) => void;
+}
+
+const ArchiveModal: React.FC<ArchiveModalProps> = ({
+  isOpen,
+  onClose,
+  todayId,
+  currentPuzzleId,
+  results,
+  onSelectPuzzle,
+}) => {
+  // Handle Escape key to close modal
+  React.useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  // Newest first
+  const puzzleIds = Array.from({ length: todayId }, (_, i) => todayId - i);
+  const solvedCount = puzzleIds.filter(id => (results[id]?.stars ?? -1) >= 0).length;
+
+  const renderResult = (record: GameRecord | undefined) => {
+    if (!record) {
+      return <span className="text-sm text-gray-400 dark:text-gray-500">—</span>;
+    }
+    if (record.stars < 0) {
+      return <span className="text-sm font-black text-gray-500 dark:text-gray-400">X</span>;
+    }
+    return (
+      <span className="flex gap-0.5" aria-label={`${record.stars} ѕвезди`}>
+        {[...Array(5)].map((_, i) => (
+          <svg
+            key={i}
+            className={`w-4 h-4 ${i < record.stars ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}
+            fill="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z" />
+          </svg>
+        ))}
+      </span>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-200"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="archive-modal-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-800 w-full max-w-md rounded-2xl shadow-2xl max-h-[90vh] overflow-y-auto flex flex-col relative animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+
+        {/* Header */}
+        <div className="flex items-center justify-center px-6 py-4 border-b border-gray-100 dark:border-gray-700 sticky top-0 bg-white dark:bg-gray-800 z-10 relative">
+          <h2 id="archive-modal-title" className="text-xl font-black text-gray-800 dark:text-white tracking-wider">АРХИВА</h2>
+          <button
+            onClick={onClose}
+            aria-label="Затвори"
+            className="absolute right-4 p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors group"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-gray-400 group-hover:text-gray-700 dark:group-hover:text-gray-200" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3} aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6">
+          <p className="text-center text-sm font-bold text-gray-500 dark:text-gray-400 tracking-wide mb-4">
+            РЕШЕНИ: {solvedCount} / {todayId}
+          </p>
+
+          <div className="space-y-0">
+            {puzzleIds.map(id => {
+              const isCurrent = id === currentPuzzleId;
+              return (
+                <button
+                  key={id}
+                  onClick={() => onSelectPuzzle(id)}
+                  className={`w-full flex items-center justify-between py-3 px-2 border-b border-gray-100 dark:border-gray-700 rounded transition-colors text-left ${
+                    isCurrent ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <span className="flex flex-col">
+                    <span className="font-black text-gray-800 dark:text-white">
+                      #{id}{id === todayId && ' · ДЕНЕС'}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(getPuzzleDateString(id))}
+                    </span>
+                  </span>
+                  {renderResult(results[id])}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveModal;
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import Board from './Board';
+import { isValidCell, updateColors } from '../utils/gameLogic';
+import { CellStatus, Grid } from '../types';
+
+const testSolution: string[][] = [
+  ['К', 'О', 'П', 'Н', 'О'],
+  ['А', ' ', 'О', ' ', 'Р'],
+  ['Н', 'А', 'Р', 'О', 'Д'],
+  ['Т', ' ', 'И', ' ', 'Е'],
+  ['А', 'Ј', 'В', 'А', 'Н']
+];
+
+// Solved grid with the К/Р (0,0)-(2,2) letters swapped
+const buildSampleGrid = (): Grid => {
+  const grid: Grid = testSolution.map((row, r) =>
+    row.map((char, c) => ({
+      char: isValidCell(r, c) ? char : '',
+      status: isValidCell(r, c) ? CellStatus.WRONG : CellStatus.NONE
+    }))
+  );
+  grid[0][0].char = 'Р';
+  grid[2][2].char = 'К';
+  return updateColors(grid, testSolution);
+};
+
+const renderBoard = (props: Partial<Parameters<typeof Board>[0]> = {}): string =>
+  renderToStaticMarkup(createElement(Board, {
+    grid: buildSampleGrid(),
+    dragSource: null,
+    onTilePointerDown: () => {},
+    isGameActive: true,
+    ...props,
+  }));
+
+// Values of `attribute` on every element with the given role, in document order
+const attributesOfRole = (html: string, role: string, attribute: string): string[] =>
+  Array.from(html.matchAll(/<[a-z]+ [^>]*>/g))
+    .map(([tag]) => tag)
+    .filter(tag => tag.includes(` role="${role}"`))
+    .map(tag => tag.match(new RegExp(` ${attribute}="([^"]*)"`))?.[1] ?? '');
+
+describe('Board accessibility', () => {
+  it('should render an ARIA grid named after the game', () => {
+    const html = renderBoard();
+
+    expect(html).toMatch(/^<div role="grid" aria-label="Вафла" tabindex="0"/);
+    expect(attributesOfRole(html, 'row', 'role')).toHaveLength(6);
+  });
+
+  it('should label every tile with its letter, position and status', () => {
+    const labels = attributesOfRole(renderBoard(), 'gridcell', 'aria-label');
+
+    expect(labels).toHaveLength(25);
+    expect(labels.slice(0, 5)).toEqual([
+      'Р, ред 1, колона 1, не е во зборот',
+      'О, ред 1, колона 2, точна позиција',
+      'П, ред 1, колона 3, точна позиција',
+      'Н, ред 1, колона 4, точна позиција',
+      'О, ред 1, колона 5, точна позиција',
+    ]);
+    expect(labels[6]).toBe('празно поле');
+    expect(labels[12]).toBe('К, ред 3, колона 3, не е во зборот');
+    expect(labels[24]).toBe('Н, ред 5, колона 5, точна позиција');
+  });
+
+  it('should render the word headers', () => {
+    const html = renderBoard();
+
+    expect(html).toContain('<span role="columnheader">Вертикален збор 1</span>');
+    expect(html).toContain('<span role="rowheader" class="sr-only">Хоризонтален збор 2</span>');
+    expect(html).toContain('<span role="rowheader" class="sr-only">Ред 4</span>');
+  });
+
+  it('should point the grid at the cursor tile and mark the selected one', () => {
+    const html = renderBoard({ cursor: { row: 2, col: 2 }, selected: { row: 0, col: 0 } });
+
+    expect(html).toContain('aria-activedescendant="waffle-tile-2-2"');
+    expect(attributesOfRole(html, 'gridcell', 'aria-selected')[0]).toBe('true');
+    expect(attributesOfRole(html, 'gridcell', 'id')[12]).toBe('waffle-tile-2-2');
+  });
+});
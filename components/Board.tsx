@@ -1,6 +1,8 @@
 import React, { memo } from 'react';
 import Tile from './Tile';
-import { Grid, Coords } from '../types';
+import { Grid, Coords, Swap, TileTheme } from '../types';
+import { GRID_SIZE } from '../constants';
+import { getColumnHeader, getRowHeader, getTileId } from '../utils/accessibility';
 
 interface BoardProps {
   grid: Grid;
@@ -9,6 +11,11 @@ interface BoardProps {
   onTilePointerDown: (e: React.PointerEvent<HTMLDivElement>, row: number, col: number) => void;
   isGameActive: boolean;
   isGameOver?: boolean;
+  hint?: Swap | null;
+  cursor?: Coords | null;   // Keyboard focus
+  selected?: Coords | null; // Tile picked up by keyboard or tap, waiting for a target
+  theme?: TileTheme;
+  showMarkers?: boolean;
 }
 
 // Custom comparison for Board - compare coordinates by value, not reference
@@ -22,6 +29,16 @@ const areBoardPropsEqual = (prevProps: BoardProps, nextProps: BoardProps): boole
   if (prevSwap?.from.row !== nextSwap?.from.row || prevSwap?.from.col !== nextSwap?.from.col) return false;
   if (prevSwap?.to.row !== nextSwap?.to.row || prevSwap?.to.col !== nextSwap?.to.col) return false;
 
+  const prevHint = prevProps.hint;
+  const nextHint = nextProps.hint;
+  if (prevHint?.from.row !== nextHint?.from.row || prevHint?.from.col !== nextHint?.from.col) return false;
+  if (prevHint?.to.row !== nextHint?.to.row || prevHint?.to.col !== nextHint?.to.col) return false;
+
+  if (prevProps.cursor?.row !== nextProps.cursor?.row || prevProps.cursor?.col !== nextProps.cursor?.col) return false;
+  if (prevProps.selected?.row !== nextProps.selected?.row || prevProps.selected?.col !== nextProps.selected?.col) return false;
+
+  if (prevProps.theme !== nextProps.theme) return false;
+  if (prevProps.showMarkers !== nextProps.showMarkers) return false;
   if (prevProps.isGameActive !== nextProps.isGameActive) return false;
   if (prevProps.isGameOver !== nextProps.isGameOver) return false;
 
@@ -44,18 +61,39 @@ const Board: React.FC<BoardProps> = memo(({
   swapping,
   onTilePointerDown,
   isGameActive,
-  isGameOver = false
+  isGameOver = false,
+  hint = null,
+  cursor = null,
+  selected = null,
+  theme = 'classic',
+  showMarkers = false
 }) => {
   const touchClass = isGameActive ? 'touch-none' : '';
 
   return (
-    <div className={`grid grid-cols-5 gap-1.5 sm:gap-2 p-1 rounded-xl select-none ${touchClass}`}>
+    <div
+      role="grid"
+      aria-label="Вафла"
+      tabIndex={0}
+      aria-activedescendant={cursor ? getTileId(cursor.row, cursor.col) : undefined}
+      className={`grid grid-cols-5 gap-1.5 sm:gap-2 p-1 rounded-xl select-none ${touchClass}`}
+    >
+      {/* Word headers, for screen readers only */}
+      <div role="row" className="sr-only">
+        <span role="columnheader" />
+        {Array.from({ length: GRID_SIZE }, (_, cIndex) => (
+          <span key={cIndex} role="columnheader">{getColumnHeader(cIndex)}</span>
+        ))}
+      </div>
       {grid.map((row, rIndex) => (
-        <React.Fragment key={rIndex}>
+        <div key={rIndex} role="row" className="contents">
+          <span role="rowheader" className="sr-only">{getRowHeader(rIndex)}</span>
           {row.map((cell, cIndex) => {
             const isDragging = dragSource?.row === rIndex && dragSource?.col === cIndex;
             const isSwapping = (swapping?.from.row === rIndex && swapping?.from.col === cIndex) ||
                               (swapping?.to.row === rIndex && swapping?.to.col === cIndex);
+            const isHinted = (hint?.from.row === rIndex && hint?.from.col === cIndex) ||
+                             (hint?.to.row === rIndex && hint?.to.col === cIndex);
 
             return (
               <Tile
@@ -68,10 +106,15 @@ const Board: React.FC<BoardProps> = memo(({
                 onPointerDown={onTilePointerDown}
                 disabled={!isGameActive}
                 isGameOver={isGameOver}
+                isHinted={isHinted}
+                isCursor={cursor?.row === rIndex && cursor?.col === cIndex}
+                isSelected={selected?.row === rIndex && selected?.col === cIndex}
+                theme={theme}
+                showMarkers={showMarkers}
               />
             );
           })}
-        </React.Fragment>
+        </div>
       ))}
     </div>
   );
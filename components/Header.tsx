@@ -6,9 +6,10 @@ interface HeaderProps {
   onStatsClick: () => void;
   onAboutClick: () => void;
   onMenuClick: () => void;
+  archiveId?: number | null;
 }
 
-const Header: React.FC<HeaderProps> = memo(({ onHelpClick, onStatsClick, onAboutClick, onMenuClick }) => {
+const Header: React.FC<HeaderProps> = memo(({ onHelpClick, onStatsClick, onAboutClick, onMenuClick, archiveId = null }) => {
   const dailyId = getDailySeed();
 
   return (
@@ -43,7 +44,7 @@ const Header: React.FC<HeaderProps> = memo(({ onHelpClick, onStatsClick, onAbout
           ВАФЛА
         </h1>
         <p className="text-[10px] text-gray-400 dark:text-gray-500 font-bold tracking-widest mt-0 uppercase">
-          Дневна Вафла #{dailyId}
+          {archiveId !== null ? `Архива #${archiveId}` : `Дневна Вафла #${dailyId}`}
         </p>
       </div>
 
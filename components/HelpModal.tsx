@@ -1,13 +1,15 @@
 import React, { memo } from 'react';
 import Tile from './Tile';
-import { CellStatus } from '../types';
+import { CellStatus, TileTheme } from '../types';
 
 interface HelpModalProps {
   isOpen: boolean;
   onClose: () => void;
+  theme?: TileTheme;
+  showMarkers?: boolean;
 }
 
-const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose }) => {
+const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose, theme = 'classic', showMarkers = false }) => {
   // Handle Escape key to close modal
   React.useEffect(() => {
     if (!isOpen) return;
@@ -57,7 +59,8 @@ const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose }) => {
 
           <div className="border-t border-gray-100 dark:border-gray-700 pt-5">
             <p className="mb-4">Преместете ги буквите за да ги составите зборовите хоризонтално и вертикално. Повлечете ги буквите каде било на таблата.</p>
-            <p>Буквите ќе ја променат бојата за да покажат дали се на вистинската позиција.</p>
+            <p className="mb-4">Буквите ќе ја променат бојата за да покажат дали се на вистинската позиција.</p>
+            <p>Со тастатура: стрелките го движат курсорот, <strong>Enter</strong> или <strong>Space</strong> ја избира буквата, а повторно на друга буква ги заменува. <strong>Esc</strong> го откажува изборот.</p>
           </div>
 
           {/* Examples */}
@@ -70,9 +73,11 @@ const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose }) => {
                  <div className="w-14 h-14 relative shrink-0">
                     <Tile
                       data={{ char: 'П', status: CellStatus.CORRECT }}
-                      row={0} col={0} isDraggingSource={false} onPointerDown={() => {}}
+                      row={-1} col={-1} isDraggingSource={false} onPointerDown={() => {}}
                       style={{ width: '100%', height: '100%', fontSize: '1.75rem', cursor: 'default' }}
                       disabled={true}
+                      theme={theme}
+                      showMarkers={showMarkers}
                     />
                  </div>
                  <p className="text-sm leading-tight">Буквата <strong className="text-gray-900 dark:text-white">П</strong> е на вистинското место.</p>
@@ -86,9 +91,11 @@ const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose }) => {
                  <div className="w-14 h-14 relative shrink-0">
                     <Tile
                       data={{ char: 'Е', status: CellStatus.PRESENT }}
-                      row={0} col={0} isDraggingSource={false} onPointerDown={() => {}}
+                      row={-1} col={-1} isDraggingSource={false} onPointerDown={() => {}}
                       style={{ width: '100%', height: '100%', fontSize: '1.75rem', cursor: 'default' }}
                       disabled={true}
+                      theme={theme}
+                      showMarkers={showMarkers}
                     />
                  </div>
                  <p className="text-sm leading-tight">Буквата <strong className="text-gray-900 dark:text-white">Е</strong> е во зборот, но на друго место.</p>
@@ -102,9 +109,11 @@ const HelpModal: React.FC<HelpModalProps> = memo(({ isOpen, onClose }) => {
                  <div className="w-14 h-14 relative shrink-0">
                     <Tile
                       data={{ char: 'К', status: CellStatus.PRESENT }}
-                      row={0} col={0} isDraggingSource={false} onPointerDown={() => {}}
+                      row={-1} col={-1} isDraggingSource={false} onPointerDown={() => {}}
                       style={{ width: '100%', height: '100%', fontSize: '1.75rem', cursor: 'default' }}
                       disabled={true}
+                      theme={theme}
+                      showMarkers={showMarkers}
                     />
                  </div>
                  <p className="text-sm leading-tight">Оваа буква е на агол, па припаѓа или на вертикалниот или на хоризонталниот збор.</p>
@@ -5,6 +5,7 @@ interface MenuPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onStatsClick: () => void;
+  onArchiveClick: () => void;
   onAboutClick: () => void;
   onHelpClick: () => void;
   onOptionsClick: () => void;
@@ -14,6 +15,7 @@ const MenuPanel: React.FC<MenuPanelProps> = ({
   isOpen,
   onClose,
   onStatsClick,
+  onArchiveClick,
   onAboutClick,
   onHelpClick,
   onOptionsClick,
@@ -61,6 +63,19 @@ const MenuPanel: React.FC<MenuPanelProps> = ({
             </span>
           </button>
 
+          {/* Archive */}
+          <button
+            onClick={() => handleItemClick(onArchiveClick)}
+            className="w-full flex items-center gap-4 px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-left"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-gray-700 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+            <span className="text-gray-800 dark:text-white font-semibold tracking-wide">
+              АРХИВА
+            </span>
+          </button>
+
           {/* About */}
           <button
             onClick={() => handleItemClick(onAboutClick)}
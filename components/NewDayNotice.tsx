@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface NewDayNoticeProps {
+  todayPuzzleId: number;
+  onPlay: () => void;
+}
+
+// Shown once midnight has passed while an earlier puzzle is still on the board
+const NewDayNotice: React.FC<NewDayNoticeProps> = ({ todayPuzzleId, onPlay }) => (
+  <div
+    role="status"
+    className="w-full mb-4 px-4 py-3 rounded-xl flex items-center gap-3 bg-green-50 dark:bg-green-900/40 border border-green-200 dark:border-green-700"
+  >
+    <p className="flex-1 text-sm text-green-900 dark:text-green-100">
+      Започна нов ден: Вафла #{todayPuzzleId} е подготвена.
+    </p>
+    <button
+      onClick={onPlay}
+      className="text-sm font-bold text-[#6aaa64] hover:text-[#5a9a54] tracking-wide whitespace-nowrap"
+    >
+      ИГРАЈ →
+    </button>
+  </div>
+);
+
+export default NewDayNotice;
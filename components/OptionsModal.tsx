@@ -1,18 +1,113 @@
 import React from 'react';
+import { InputMode, TileTheme, UndoMode } from '../types';
+import { HINT_COSTS } from '../constants';
+import { exportPlayerData, importPlayerData } from '../utils/backup';
+import { getTodayDateString } from '../utils/statsDb';
+import { isValidPlayerId } from '../utils/syncProtocol';
+import { SyncStatus } from '../utils/useSync';
 
 interface OptionsModalProps {
   isOpen: boolean;
   onClose: () => void;
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
+  tileTheme: TileTheme;
+  onTileThemeChange: (theme: TileTheme) => void;
+  showMarkers: boolean;
+  onToggleMarkers: () => void;
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  undoMode: UndoMode;
+  onUndoModeChange: (mode: UndoMode) => void;
+  hintCost: number;
+  onHintCostChange: (cost: number) => void;
+  syncEndpoint: string;
+  onSyncEndpointChange: (endpoint: string) => void;
+  syncId: string;
+  onSyncIdChange: (id: string) => void;
+  syncStatus: SyncStatus;
+  onSync: () => void;
 }
 
+const TILE_THEME_OPTIONS: { value: TileTheme; label: string }[] = [
+  { value: 'classic', label: 'Класични' },
+  { value: 'colorblind', label: 'Далтонисти' },
+  { value: 'high-contrast', label: 'Висок контраст' },
+];
+
+const INPUT_MODE_OPTIONS: { value: InputMode; label: string }[] = [
+  { value: 'drag', label: 'Влечење' },
+  { value: 'tap', label: 'Допир' },
+];
+
+const UNDO_MODE_OPTIONS: { value: UndoMode; label: string }[] = [
+  { value: 'refund', label: 'Бесплатно' },
+  { value: 'penalty', label: 'Чини потег' },
+  { value: 'disabled', label: 'Тежок режим' },
+];
+
+const SYNC_STATUS_TEXT: Record<SyncStatus, string | null> = {
+  idle: null,
+  syncing: 'Се синхронизира…',
+  synced: 'Синхронизирано.',
+  error: 'Синхронизацијата не успеа.',
+};
+
 const OptionsModal: React.FC<OptionsModalProps> = ({
   isOpen,
   onClose,
   isDarkMode,
   onToggleDarkMode,
+  tileTheme,
+  onTileThemeChange,
+  showMarkers,
+  onToggleMarkers,
+  inputMode,
+  onInputModeChange,
+  undoMode,
+  onUndoModeChange,
+  hintCost,
+  onHintCostChange,
+  syncEndpoint,
+  onSyncEndpointChange,
+  syncId,
+  onSyncIdChange,
+  syncStatus,
+  onSync,
 }) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [dataMessage, setDataMessage] = React.useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      const json = await exportPlayerData();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mkwaffle-backup-${getTodayDateString()}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setDataMessage(null);
+    } catch (error) {
+      console.error('Failed to export player data:', error);
+      setDataMessage('Извозот не успеа.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importPlayerData(await file.text());
+      // Stats, saved games and preferences are all read on startup
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to import player data:', error);
+      setDataMessage(error instanceof Error ? error.message : 'Увозот не успеа.');
+    }
+  };
+
   // Handle Escape key to close modal
   React.useEffect(() => {
     if (!isOpen) return;
@@ -34,7 +129,7 @@ const OptionsModal: React.FC<OptionsModalProps> = ({
       aria-labelledby="options-modal-title"
     >
       <div
-        className="bg-white dark:bg-gray-800 w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden flex flex-col relative animate-in zoom-in-95 duration-200"
+        className="bg-white dark:bg-gray-800 w-full max-w-sm rounded-2xl shadow-2xl max-h-[90vh] overflow-y-auto flex flex-col relative animate-in zoom-in-95 duration-200"
         onClick={(e) => e.stopPropagation()}
       >
         {/* Header */}
@@ -98,6 +193,287 @@ const OptionsModal: React.FC<OptionsModalProps> = ({
               />
             </button>
           </div>
+
+          {/* Tile Colors */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M7 21a4 4 0 01-4-4V5a2 2 0 012-2h4a2 2 0 012 2v12a4 4 0 01-4 4zm0 0h12a2 2 0 002-2v-4a2 2 0 00-2-2h-2.343M11 7.343l1.657-1.657a2 2 0 012.828 0l2.829 2.829a2 2 0 010 2.828l-8.486 8.485M7 17h.01" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Бои на буквите
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Бои на буквите">
+              {TILE_THEME_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onTileThemeChange(option.value)}
+                  role="radio"
+                  aria-checked={tileTheme === option.value}
+                  className={`py-2 px-1 rounded-lg text-xs font-bold transition-colors ${
+                    tileTheme === option.value
+                      ? 'bg-[#6aaa64] text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Status Markers Toggle */}
+          <div className="flex items-center justify-between py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3">
+              <span className="h-6 w-6 flex items-center justify-center text-lg font-black text-gray-700 dark:text-gray-300" aria-hidden="true">
+                ✓
+              </span>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Ознаки на буквите
+              </span>
+            </div>
+            <button
+              onClick={onToggleMarkers}
+              role="switch"
+              aria-checked={showMarkers}
+              aria-label="Ознаки на буквите"
+              className={`relative w-14 h-8 rounded-full transition-colors duration-300 ${
+                showMarkers ? 'bg-[#6aaa64]' : 'bg-gray-300'
+              }`}
+            >
+              <span
+                className={`absolute top-1 left-1 w-6 h-6 bg-white rounded-full shadow-md transform transition-transform duration-300 ${
+                  showMarkers ? 'translate-x-6' : 'translate-x-0'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Input Mode */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M7 11.5V14m0-2.5v-6a1.5 1.5 0 113 0m-3 6a1.5 1.5 0 00-3 0v2a7.5 7.5 0 0015 0v-5a1.5 1.5 0 00-3 0m-6-3V11m0-5.5v-1a1.5 1.5 0 013 0v1m0 0V11m0-5.5a1.5 1.5 0 013 0v3m0 0V11" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Замена на букви
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Замена на букви">
+              {INPUT_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onInputModeChange(option.value)}
+                  role="radio"
+                  aria-checked={inputMode === option.value}
+                  className={`py-2 px-1 rounded-lg text-xs font-bold transition-colors ${
+                    inputMode === option.value
+                      ? 'bg-[#6aaa64] text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Undo Rules */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 015 5v2M3 10l5 5M3 10l5-5" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Враќање потег
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Враќање потег">
+              {UNDO_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onUndoModeChange(option.value)}
+                  role="radio"
+                  aria-checked={undoMode === option.value}
+                  className={`py-2 px-1 rounded-lg text-xs font-bold transition-colors ${
+                    undoMode === option.value
+                      ? 'bg-[#6aaa64] text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Hint Cost */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Цена на помош
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Цена на помош">
+              {HINT_COSTS.map(cost => (
+                <button
+                  key={cost}
+                  onClick={() => onHintCostChange(cost)}
+                  role="radio"
+                  aria-checked={hintCost === cost}
+                  className={`py-2 px-1 rounded-lg text-xs font-bold transition-colors ${
+                    hintCost === cost
+                      ? 'bg-[#6aaa64] text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {cost} {cost === 1 ? 'потег' : 'потези'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Sync */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Синхронизација
+              </span>
+            </div>
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 mb-1" htmlFor="sync-endpoint">
+              Адреса на серверот
+            </label>
+            <input
+              id="sync-endpoint"
+              type="url"
+              value={syncEndpoint}
+              onChange={(e) => onSyncEndpointChange(e.target.value.trim())}
+              placeholder="http://localhost:8787"
+              className="w-full mb-2 px-3 py-2 rounded-lg text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white placeholder-gray-400"
+            />
+            <label className="block text-xs font-bold text-gray-500 dark:text-gray-400 mb-1" htmlFor="sync-id">
+              Код на играчот
+            </label>
+            <input
+              id="sync-id"
+              type="text"
+              value={syncId}
+              onChange={(e) => onSyncIdChange(e.target.value.trim())}
+              spellCheck={false}
+              aria-invalid={!isValidPlayerId(syncId)}
+              className="w-full px-3 py-2 rounded-lg text-xs font-mono bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Внесете ист код на сите уреди за да делат една низа.
+            </p>
+            <button
+              onClick={onSync}
+              disabled={!syncEndpoint || !isValidPlayerId(syncId) || syncStatus === 'syncing'}
+              className="w-full mt-2 py-2 px-1 rounded-lg text-xs font-bold transition-colors bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+            >
+              Синхронизирај
+            </button>
+            {SYNC_STATUS_TEXT[syncStatus] && (
+              <p
+                role="status"
+                className={`text-xs font-bold mt-2 ${
+                  syncStatus === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                }`}
+              >
+                {SYNC_STATUS_TEXT[syncStatus]}
+              </p>
+            )}
+          </div>
+
+          {/* Export / Import */}
+          <div className="py-3 border-t border-gray-100 dark:border-gray-700">
+            <div className="flex items-center gap-3 mb-3">
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-6 w-6 text-gray-700 dark:text-gray-300"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+              </svg>
+              <span className="text-gray-800 dark:text-white font-semibold">
+                Податоци
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={handleExport}
+                className="py-2 px-1 rounded-lg text-xs font-bold transition-colors bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Извези
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="py-2 px-1 rounded-lg text-xs font-bold transition-colors bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                Увези
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Пренесете ги резултатите и низите на друг уред. Увезените игри се додаваат на постоечките.
+            </p>
+            {dataMessage && (
+              <p role="alert" className="text-xs font-bold text-red-600 dark:text-red-400 mt-2">
+                {dataMessage}
+              </p>
+            )}
+          </div>
         </div>
       </div>
     </div>
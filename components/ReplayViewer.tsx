@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Grid, MoveRecord, TileTheme } from '../types';
+import { GRID_SIZE } from '../constants';
+import { getReplayFrames, isValidCell } from '../utils/gameLogic';
+import { DEFAULT_TILE_THEME, getTileColorClass } from '../utils/tileTheme';
+
+interface ReplayViewerProps {
+  finalGrid: Grid;
+  moves: MoveRecord[];
+  solution: string[][];
+  theme?: TileTheme;
+}
+
+const STEP_INTERVAL_MS = 800;
+// Tile (2.5rem) + gap (0.25rem), used to fly tiles between cells
+const CELL_STEP_REM = 2.75;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ finalGrid, moves, solution, theme = DEFAULT_TILE_THEME }) => {
+  const frames = useMemo(() => getReplayFrames(finalGrid, moves, solution), [finalGrid, moves, solution]);
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Only animate when moving one step forward; jumps and steps back are instant
+  const [animate, setAnimate] = useState(false);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= moves.length) {
+      setIsPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      setAnimate(true);
+      setStep(s => s + 1);
+    }, STEP_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, moves.length]);
+
+  const togglePlay = () => {
+    if (!isPlaying && step >= moves.length) {
+      setAnimate(false);
+      setStep(0);
+    }
+    setIsPlaying(p => !p);
+  };
+
+  const stepForward = () => {
+    setIsPlaying(false);
+    if (step < moves.length) {
+      setAnimate(true);
+      setStep(step + 1);
+    }
+  };
+
+  const stepBack = () => {
+    setIsPlaying(false);
+    setAnimate(false);
+    setStep(Math.max(0, step - 1));
+  };
+
+  const scrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setIsPlaying(false);
+    setAnimate(false);
+    setStep(parseInt(e.target.value, 10));
+  };
+
+  const grid = frames[step];
+  const lastMove = step > 0 ? moves[step - 1] : null;
+
+  const renderTile = (row: number, col: number) => {
+    const cell = grid[row][col];
+    const colorClass = getTileColorClass(cell.status, theme);
+
+    // The moved tile flies from `from` to `to`, the displaced one the other way
+    let style: React.CSSProperties | undefined;
+    if (animate && lastMove) {
+      const isTo = lastMove.to.row === row && lastMove.to.col === col;
+      const isFrom = lastMove.from.row === row && lastMove.from.col === col;
+      if (isTo || isFrom) {
+        const other = isTo ? lastMove.from : lastMove.to;
+        style = {
+          animation: `${isTo ? 'fly-from-source' : 'fly-from-target'} 300ms ease-in-out forwards`,
+          '--swap-dx': `${(other.col - col) * CELL_STEP_REM}rem`,
+          '--swap-dy': `${(other.row - row) * CELL_STEP_REM}rem`,
+          zIndex: isTo ? 2 : 1,
+        } as React.CSSProperties;
+      }
+    }
+
+    return (
+      <div
+        // Remount on every step so the animation restarts
+        key={`${row}-${col}-${step}`}
+        style={style}
+        className={`relative w-10 h-10 rounded flex items-center justify-center text-base font-bold border-b-[3px] ${colorClass}`}
+      >
+        {cell.char}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full">
+      <div className="grid grid-cols-5 gap-1 my-2">
+        {Array(GRID_SIZE).fill(null).map((_, row) => (
+          Array(GRID_SIZE).fill(null).map((_, col) => (
+            isValidCell(row, col)
+              ? renderTile(row, col)
+              : <div key={`${row}-${col}`} className="w-10 h-10" />
+          ))
+        ))}
+      </div>
+
+      <p className="text-sm font-bold text-gray-500 dark:text-gray-400 tracking-wide mb-2">
+        ПОТЕГ {step} / {moves.length}
+        {lastMove?.isUndo && ' · ВРАЌАЊЕ'}
+      </p>
+
+      <input
+        type="range"
+        min={0}
+        max={moves.length}
+        value={step}
+        onChange={scrub}
+        aria-label="Потег"
+        className="w-full max-w-[240px] accent-[#6aaa64] mb-3"
+      />
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={stepBack}
+          disabled={step === 0}
+          aria-label="Претходен потег"
+          className="p-2 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M6 6h2v12H6zm3.5 6l8.5 6V6z" />
+          </svg>
+        </button>
+        <button
+          onClick={togglePlay}
+          aria-label={isPlaying ? 'Пауза' : 'Пушти'}
+          className="p-2 rounded-full bg-[#6aaa64] hover:bg-[#5a9a54] text-white shadow-md active:scale-95 transition-all"
+        >
+          {isPlaying ? (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+            </svg>
+          ) : (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M8 5v14l11-7z" />
+            </svg>
+          )}
+        </button>
+        <button
+          onClick={stepForward}
+          disabled={step >= moves.length}
+          aria-label="Следен потег"
+          className="p-2 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+            <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
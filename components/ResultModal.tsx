@@ -1,8 +1,10 @@
 import React, { useEffect, useState } from 'react';
-import { getNextMidnight, getDailySeed } from '../utils/daily';
+import { getNextMidnight } from '../utils/daily';
 import { isValidCell } from '../utils/gameLogic';
+import { DEFAULT_TILE_THEME, getShareSquare } from '../utils/tileTheme';
 import { GRID_SIZE } from '../constants';
-import { GameStats, Grid, CellStatus } from '../types';
+import { GameStats, Grid, MoveRecord, TileTheme } from '../types';
+import ReplayViewer from './ReplayViewer';
 
 interface ResultModalProps {
   status: 'WON' | 'LOST';
@@ -10,24 +12,53 @@ interface ResultModalProps {
   solution: string[][] | null;
   stats: GameStats;
   grid: Grid | null;
+  moves: MoveRecord[];
+  puzzleId: number;
+  isArchive?: boolean;
+  swapsUsed: number;
+  hintsUsed: number;
+  optimalSwaps: number | null;
+  onShowOptimal: () => void;
+  onPlayNewPuzzle: () => void;
+  theme?: TileTheme;
 }
 
-const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solution, stats, grid }) => {
-  const [timeLeft, setTimeLeft] = useState<string>('');
+const ResultModal: React.FC<ResultModalProps> = ({
+  status,
+  swapsRemaining,
+  solution,
+  stats,
+  grid,
+  moves,
+  puzzleId,
+  isArchive = false,
+  swapsUsed,
+  hintsUsed,
+  optimalSwaps,
+  onShowOptimal,
+  onPlayNewPuzzle,
+  theme = DEFAULT_TILE_THEME,
+}) => {
+  // Null once the next puzzle is out
+  const [timeLeft, setTimeLeft] = useState<string | null>('');
   const [showingSolution, setShowingSolution] = useState(false);
+  const [showingReplay, setShowingReplay] = useState(false);
   const [showCopied, setShowCopied] = useState(false);
 
   // Stars = swaps remaining (max 5, like original Waffle)
   const stars = status === 'WON' ? Math.min(5, Math.max(0, swapsRemaining)) : 0;
 
   useEffect(() => {
+    // Fixed when the result is shown, so the countdown ends at the midnight after this game
+    const target = getNextMidnight();
+
     const updateTimer = () => {
-      const target = getNextMidnight();
       const now = new Date();
       const diff = target.getTime() - now.getTime();
 
       if (diff <= 0) {
-        setTimeLeft("00:00:00");
+        setTimeLeft(null);
+        clearInterval(interval);
         return;
       }
 
@@ -39,8 +70,8 @@ const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solut
       setTimeLeft(`${pad(h)}:${pad(m)}:${pad(s)}`);
     };
 
-    updateTimer();
     const interval = setInterval(updateTimer, 1000);
+    updateTimer();
     return () => clearInterval(interval);
   }, []);
 
@@ -75,19 +106,7 @@ const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solut
           // Center position - show star if 5 stars won
           rowStr += '⭐';
         } else {
-          const cell = grid[row][col];
-          switch (cell.status) {
-            case CellStatus.CORRECT:
-              rowStr += '🟩';
-              break;
-            case CellStatus.PRESENT:
-              rowStr += '🟨';
-              break;
-            case CellStatus.WRONG:
-            default:
-              rowStr += '⬜';
-              break;
-          }
+          rowStr += getShareSquare(grid[row][col].status, theme);
         }
       }
       rows.push(rowStr);
@@ -97,16 +116,17 @@ const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solut
 
   // Generate share text
   const handleShare = async () => {
-    const puzzleNumber = getDailySeed(); // Now returns 1, 2, 3... starting from Jan 17, 2026
     const emojiGrid = generateEmojiGrid();
 
     // Format: #вафла{number} {stars}/5
+    // Archive plays don't count towards the streak, so it's left out
     const shareText = [
-      `#вафла${puzzleNumber} ${stars}/5`,
+      `#вафла${puzzleId} ${stars}/5`,
       '',
       emojiGrid,
       '',
-      `🔥 серија: ${stats.currentStreak}`,
+      ...(hintsUsed > 0 ? [`💡 помош: ${hintsUsed}`] : []),
+      ...(isArchive ? [] : [`🔥 серија: ${stats.currentStreak}`]),
       'https://vafla.mk'
     ].join('\n');
 
@@ -224,9 +244,18 @@ const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solut
       </button>
 
       {/* Next Waffle Timer */}
-      <p className="text-gray-500 dark:text-gray-400 font-medium text-base mb-4">
-        Следна Вафла: <span className="font-bold text-gray-800 dark:text-white text-lg">{timeLeft}</span>
-      </p>
+      {timeLeft !== null ? (
+        <p className="text-gray-500 dark:text-gray-400 font-medium text-base mb-4">
+          Следна Вафла: <span className="font-bold text-gray-800 dark:text-white text-lg">{timeLeft}</span>
+        </p>
+      ) : (
+        <button
+          onClick={onPlayNewPuzzle}
+          className="text-base font-bold text-[#6aaa64] hover:text-[#5a9a54] tracking-wide mb-4"
+        >
+          НОВАТА ВАФЛА Е ТУКА - ИГРАЈ →
+        </button>
+      )}
 
       {/* Separator */}
       <div className="w-full h-[1px] bg-gray-200 dark:bg-gray-700 mb-4" />
@@ -247,6 +276,49 @@ const ResultModal: React.FC<ResultModalProps> = ({ status, swapsRemaining, solut
         </div>
       </div>
 
+      {/* Optimal Solution */}
+      {optimalSwaps !== null && (
+        <div className="w-full max-w-[320px] mb-4">
+          <div className="flex justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+            <span className="text-sm font-semibold text-gray-500 dark:text-gray-400 tracking-wide">ВАШИ ПОТЕЗИ</span>
+            <span className="font-black text-gray-800 dark:text-white">{swapsUsed}</span>
+          </div>
+          {hintsUsed > 0 && (
+            <div className="flex justify-between py-3 border-b border-gray-100 dark:border-gray-700">
+              <span className="text-sm font-semibold text-gray-500 dark:text-gray-400 tracking-wide">ПОМОШ</span>
+              <span className="font-black text-gray-800 dark:text-white">{hintsUsed}</span>
+            </div>
+          )}
+          <div className="flex justify-between py-3 mb-4">
+            <span className="text-sm font-semibold text-gray-500 dark:text-gray-400 tracking-wide">ОПТИМАЛНО</span>
+            <span className="font-black text-gray-800 dark:text-white">{optimalSwaps}</span>
+          </div>
+          <button
+            onClick={onShowOptimal}
+            className="w-full bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-white font-bold py-3 px-8 rounded-lg shadow-md active:scale-95 transition-all tracking-wider"
+          >
+            ПРИКАЖИ ОПТИМАЛНО РЕШЕНИЕ
+          </button>
+        </div>
+      )}
+
+      {/* Replay Button */}
+      {moves.length > 0 && grid && solution && !showingReplay && (
+        <button
+          onClick={() => setShowingReplay(true)}
+          className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-white font-bold py-3 px-8 rounded-lg shadow-md active:scale-95 transition-all mb-4 tracking-wider"
+        >
+          ПОВТОРИ ЈА ИГРАТА
+        </button>
+      )}
+
+      {/* Replay Viewer */}
+      {showingReplay && grid && solution && (
+        <div className="w-full mb-4">
+          <ReplayViewer finalGrid={grid} moves={moves} solution={solution} theme={theme} />
+        </div>
+      )}
+
       {/* Show Solution Button - Only for LOST */}
       {status === 'LOST' && !showingSolution && (
         <button
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameRecord, TileTheme } from '../types';
+import { GRID_SIZE, THEME_COLORS } from '../constants';
+import { isValidCell } from '../utils/gameLogic';
+import { getPuzzleDateString, getPuzzleIdForDateString, getSolutionById } from '../utils/daily';
+import { decodeGridLetters } from '../utils/retention';
+import { DEFAULT_TILE_THEME, getTileColorClass } from '../utils/tileTheme';
+import ReplayViewer from './ReplayViewer';
+import {
+  MONTH_NAMES,
+  WEEKDAY_NAMES,
+  formatDate,
+  getCalendarWeeks,
+  getMonthRange,
+  shiftMonth,
+} from '../utils/calendar';
+import { getGameRecordsBetween, getTodayDateString, loadGameState, SavedGameState } from '../utils/statsDb';
+
+interface StatsCalendarProps {
+  theme?: TileTheme;
+}
+
+const parseMonth = (dateString: string) => {
+  const [year, month] = dateString.split('-').map(Number);
+  return { year, month };
+};
+
+const StatsCalendar: React.FC<StatsCalendarProps> = ({ theme = DEFAULT_TILE_THEME }) => {
+  const today = getTodayDateString();
+  const first = parseMonth(getPuzzleDateString(1));
+  const current = parseMonth(today);
+
+  const [view, setView] = useState(current);
+  // Records of the month on view, by date
+  const [records, setRecords] = useState<Record<string, GameRecord>>({});
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedState, setSelectedState] = useState<SavedGameState | null>(null);
+  const [showingReplay, setShowingReplay] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { start, end } = getMonthRange(view.year, view.month);
+    getGameRecordsBetween(start, end).then(list => {
+      if (cancelled) return;
+      const byDate: Record<string, GameRecord> = {};
+      for (const record of list) {
+        byDate[record.date] = record;
+      }
+      setRecords(byDate);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [view.year, view.month]);
+
+  const colors = THEME_COLORS[theme];
+  const monthIndex = (m: { year: number; month: number }) => m.year * 12 + m.month;
+  const canGoBack = monthIndex(view) > monthIndex(first);
+  const canGoForward = monthIndex(view) < monthIndex(current);
+
+  const changeMonth = (delta: number) => {
+    setView(shiftMonth(view.year, view.month, delta));
+    setSelectedDate(null);
+  };
+
+  const selectDay = async (date: string) => {
+    setSelectedDate(date);
+    setShowingReplay(false);
+    const record = records[date];
+    if (!record) return;
+    const state = await loadGameState(record.puzzleId);
+    setSelectedState(state);
+  };
+
+  // Final board and moves of the selected day: from the saved game, or from
+  // the summary its record keeps once the saved game is pruned
+  const selectedGame = useMemo(() => {
+    if (!selectedDate) return null;
+    const puzzleId = getPuzzleIdForDateString(selectedDate);
+    const record = records[selectedDate];
+    const state = selectedState?.puzzleId === puzzleId ? selectedState : null;
+    if (!record || (!state && !record.finalGrid)) return null;
+
+    const solution = getSolutionById(puzzleId);
+    const grid = state ? state.grid : decodeGridLetters(record.finalGrid!, solution);
+    if (!grid) return null;
+    return { grid, moves: state?.moves ?? record.moves ?? [], solution };
+  }, [selectedDate, selectedState, records]);
+
+  const renderDay = (date: string | null, index: number) => {
+    if (!date) return <div key={index} />;
+
+    const day = Number(date.slice(8));
+    const hasPuzzle = getPuzzleIdForDateString(date) >= 1 && date <= today;
+    const record = records[date];
+
+    let colorClass = 'text-gray-300 dark:text-gray-600';
+    if (record) {
+      colorClass = record.stars >= 0 ? colors.GREEN : colors.DARK;
+    } else if (hasPuzzle) {
+      colorClass = 'text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-600';
+    }
+
+    let label = `${formatDate(date)}: `;
+    if (record) label += record.stars >= 0 ? `${record.stars} ѕвезди` : 'неуспешно';
+    else label += hasPuzzle ? 'не е одиграно' : 'нема вафла';
+
+    return (
+      <button
+        key={index}
+        onClick={() => selectDay(date)}
+        disabled={!hasPuzzle}
+        aria-label={label}
+        aria-pressed={selectedDate === date}
+        className={`aspect-square rounded flex flex-col items-center justify-center text-xs font-bold leading-none transition-colors ${colorClass} ${
+          selectedDate === date ? 'ring-2 ring-gray-800 dark:ring-white ring-offset-1 dark:ring-offset-gray-800' : ''
+        }`}
+      >
+        <span>{day}</span>
+        {record && (
+          <span className="text-[0.6rem] mt-0.5" aria-hidden="true">
+            {record.stars >= 0 ? `${record.stars}★` : 'X'}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const renderSelectedDay = () => {
+    if (!selectedDate) return null;
+    const puzzleId = getPuzzleIdForDateString(selectedDate);
+    const record = records[selectedDate];
+
+    return (
+      <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-xl flex flex-col items-center">
+        <p className="font-black text-gray-800 dark:text-white">
+          #{puzzleId} · {formatDate(selectedDate)}
+        </p>
+
+        {!record && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Не е одиграно.</p>
+        )}
+
+        {record && (
+          <>
+            <p className="text-sm font-bold text-gray-600 dark:text-gray-300 mt-1">
+              {record.stars >= 0 ? `${record.stars} / 5 ѕвезди` : 'Неуспешно'}
+              {!!record.hintsUsed && ` · помош: ${record.hintsUsed}`}
+            </p>
+
+            {selectedGame && showingReplay && (
+              <div className="w-full mt-3">
+                <ReplayViewer
+                  finalGrid={selectedGame.grid}
+                  moves={selectedGame.moves}
+                  solution={selectedGame.solution}
+                  theme={theme}
+                />
+              </div>
+            )}
+
+            {selectedGame && !showingReplay && (
+              <>
+                <div className="grid grid-cols-5 gap-1 mt-3">
+                  {Array(GRID_SIZE).fill(null).map((_, row) => (
+                    Array(GRID_SIZE).fill(null).map((_, col) => {
+                      if (!isValidCell(row, col)) {
+                        return <div key={`${row}-${col}`} className="w-7 h-7" />;
+                      }
+                      const cell = selectedGame.grid[row][col];
+                      const colorClass = getTileColorClass(cell.status, theme);
+                      return (
+                        <div
+                          key={`${row}-${col}`}
+                          className={`w-7 h-7 rounded flex items-center justify-center text-sm font-bold border-b-2 ${colorClass}`}
+                        >
+                          {cell.char}
+                        </div>
+                      );
+                    })
+                  ))}
+                </div>
+                {selectedGame.moves.length > 0 && (
+                  <button
+                    onClick={() => setShowingReplay(true)}
+                    className="mt-3 text-xs font-bold text-[#6aaa64] hover:text-[#5a9a54] tracking-wide"
+                  >
+                    ПОВТОРИ ЈА ИГРАТА
+                  </button>
+                )}
+              </>
+            )}
+
+            {!selectedGame && (
+              <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">Конечната табла не е зачувана.</p>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => changeMonth(-1)}
+          disabled={!canGoBack}
+          aria-label="Претходен месец"
+          className="p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3} aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <span className="font-black text-gray-800 dark:text-white tracking-wide">
+          {MONTH_NAMES[view.month - 1]} {view.year}
+        </span>
+        <button
+          onClick={() => changeMonth(1)}
+          disabled={!canGoForward}
+          aria-label="Следен месец"
+          className="p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3} aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 mb-1">
+        {WEEKDAY_NAMES.map((name, i) => (
+          <div key={i} className="text-center text-xs font-bold text-gray-400 dark:text-gray-500">{name}</div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 gap-1">
+        {getCalendarWeeks(view.year, view.month).flat().map(renderDay)}
+      </div>
+
+      {renderSelectedDay()}
+    </div>
+  );
+};
+
+export default StatsCalendar;
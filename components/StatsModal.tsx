@@ -1,13 +1,15 @@
 import React from 'react';
-import { GameStats } from '../types';
+import { GameStats, TileTheme } from '../types';
+import StatsCalendar from './StatsCalendar';
 
 interface StatsModalProps {
   isOpen: boolean;
   onClose: () => void;
   stats: GameStats;
+  theme?: TileTheme;
 }
 
-const StatsModal: React.FC<StatsModalProps> = ({ isOpen, onClose, stats }) => {
+const StatsModal: React.FC<StatsModalProps> = ({ isOpen, onClose, stats, theme }) => {
   // Handle Escape key to close modal
   React.useEffect(() => {
     if (!isOpen) return;
@@ -139,6 +141,14 @@ const StatsModal: React.FC<StatsModalProps> = ({ isOpen, onClose, stats }) => {
               <DistributionRow label="5" count={distribution.stars5} />
             </div>
           </div>
+
+          {/* Calendar */}
+          <div className="mt-6">
+            <h3 className="text-center font-black text-gray-800 dark:text-white tracking-wider mb-4">
+              КАЛЕНДАР
+            </h3>
+            <StatsCalendar theme={theme} />
+          </div>
         </div>
       </div>
     </div>
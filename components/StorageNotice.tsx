@@ -0,0 +1,41 @@
+import React from 'react';
+import { StorageKind } from '../utils/storageBackend';
+
+interface StorageNoticeProps {
+  storageKind: StorageKind;
+  onDismiss: () => void;
+}
+
+const NOTICES: Record<StorageKind, string | null> = {
+  indexeddb: null,
+  localstorage: 'Прелистувачот не дозволува целосно зачувување, па напредокот се чува во резервна меморија. Во приватен прозорец ќе се избрише кога ќе го затворите.',
+  memory: 'Прелистувачот не дозволува зачувување. Напредокот ќе се изгуби кога ќе ја освежите или затворите страницата.',
+};
+
+// Warns that progress may not survive, when storage fell back from IndexedDB
+const StorageNotice: React.FC<StorageNoticeProps> = ({ storageKind, onDismiss }) => {
+  const notice = NOTICES[storageKind];
+  if (!notice) return null;
+
+  return (
+    <div
+      role="alert"
+      className="w-full mb-4 px-4 py-3 rounded-xl flex items-start gap-3 bg-amber-50 dark:bg-amber-900/40 border border-amber-200 dark:border-amber-700"
+    >
+      <p className="flex-1 text-sm text-amber-900 dark:text-amber-100">
+        {notice} Извезете ги податоците во Опции за да не ги изгубите.
+      </p>
+      <button
+        onClick={onDismiss}
+        aria-label="Затвори"
+        className="p-1 rounded-full text-amber-700 dark:text-amber-200 hover:bg-amber-100 dark:hover:bg-amber-800 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3} aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default StorageNotice;
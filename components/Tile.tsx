@@ -1,6 +1,7 @@
 import React from 'react';
-import { CellData, CellStatus } from '../types';
-import { COLORS } from '../constants';
+import { CellData, CellStatus, TileTheme } from '../types';
+import { getTileId, getTileLabel } from '../utils/accessibility';
+import { DEFAULT_TILE_THEME, getStatusMarker, getTileColorClass } from '../utils/tileTheme';
 
 interface TileProps {
   data: CellData;
@@ -10,6 +11,11 @@ interface TileProps {
   disabled?: boolean;
   isGameOver?: boolean;
   noTransition?: boolean;
+  isHinted?: boolean;
+  isCursor?: boolean;
+  isSelected?: boolean;
+  theme?: TileTheme;
+  showMarkers?: boolean;
   onPointerDown: (e: React.PointerEvent<HTMLDivElement>, row: number, col: number) => void;
   style?: React.CSSProperties;
 }
@@ -22,6 +28,11 @@ const areTilePropsEqual = (prevProps: TileProps, nextProps: TileProps): boolean
   if (prevProps.disabled !== nextProps.disabled) return false;
   if (prevProps.isGameOver !== nextProps.isGameOver) return false;
   if (prevProps.noTransition !== nextProps.noTransition) return false;
+  if (prevProps.isHinted !== nextProps.isHinted) return false;
+  if (prevProps.isCursor !== nextProps.isCursor) return false;
+  if (prevProps.isSelected !== nextProps.isSelected) return false;
+  if (prevProps.theme !== nextProps.theme) return false;
+  if (prevProps.showMarkers !== nextProps.showMarkers) return false;
   if (prevProps.data.char !== nextProps.data.char) return false;
   if (prevProps.data.status !== nextProps.data.status) return false;
 
@@ -45,21 +56,23 @@ const Tile: React.FC<TileProps> = React.memo(({
   disabled,
   isGameOver,
   noTransition,
+  isHinted,
+  isCursor,
+  isSelected,
+  theme = DEFAULT_TILE_THEME,
+  showMarkers = false,
   onPointerDown,
   style
 }) => {
   if (data.status === CellStatus.NONE) {
-    return <div className="w-full h-full" />;
+    return <div role="gridcell" aria-label={getTileLabel(data, row, col)} className="w-full h-full" />;
   }
 
-  let colorClass = COLORS.GRAY;
-  if (isGameOver) {
-    colorClass = COLORS.DARK;
-  } else if (data.status === CellStatus.CORRECT) {
-    colorClass = COLORS.GREEN;
-  } else if (data.status === CellStatus.PRESENT) {
-    colorClass = COLORS.YELLOW;
-  }
+  // Tiles off the board (row -1: dragged copies, help examples) are hidden from screen readers
+  const isOnBoard = row >= 0;
+
+  const colorClass = getTileColorClass(data.status, theme, isGameOver);
+  const marker = isGameOver ? null : getStatusMarker(data.status);
 
   const isInteractive = !disabled && data.status !== CellStatus.CORRECT;
   const transitionClass = noTransition ? '' : 'transition-[background-color,border-color] duration-200 ease-in-out';
@@ -80,6 +93,13 @@ const Tile: React.FC<TileProps> = React.memo(({
   let stateClass = '';
   if (isDraggingSource) {
       stateClass = 'opacity-20';
+  } else if (isCursor) {
+      stateClass = 'ring-4 ring-gray-800 dark:ring-white ring-offset-2 dark:ring-offset-gray-900';
+  } else if (isHinted) {
+      stateClass = 'ring-4 ring-sky-500 ring-offset-2 dark:ring-offset-gray-900 animate-pulse';
+  }
+  if (isSelected) {
+      stateClass += ' -translate-y-1 shadow-lg';
   }
 
   return (
@@ -87,6 +107,9 @@ const Tile: React.FC<TileProps> = React.memo(({
       data-waffle-tile
       data-row={row}
       data-col={col}
+      {...(isOnBoard
+        ? { id: getTileId(row, col), role: 'gridcell', 'aria-label': getTileLabel(data, row, col), 'aria-selected': isSelected }
+        : { 'aria-hidden': true })}
       onPointerDown={(e) => isInteractive && onPointerDown(e, row, col)}
       style={style}
       className={`
@@ -97,6 +120,11 @@ const Tile: React.FC<TileProps> = React.memo(({
       `}
     >
       {data.char}
+      {showMarkers && marker && (
+        <span aria-hidden="true" className="absolute top-0.5 right-1 sm:top-1 sm:right-1.5 text-xs sm:text-sm font-black leading-none opacity-90">
+          {marker}
+        </span>
+      )}
     </div>
   );
 }, areTilePropsEqual);
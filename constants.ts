@@ -1,5 +1,12 @@
+import { TileTheme } from './types';
+
 export const GRID_SIZE = 5;
 export const TOTAL_SWAPS = 15;
+// Every starting grid needs exactly this many swaps when played perfectly (5 stars)
+export const OPTIMAL_SWAPS = 10;
+// Swaps a hint can cost (chosen in the options); leaves room to still win with stars
+export const HINT_COSTS = [1, 2, 3];
+export const DEFAULT_HINT_COST = 2;
 
 export const COLORS = {
   GREEN: 'bg-[#58a758] border-[#3e8e3e] text-white',
@@ -8,6 +15,36 @@ export const COLORS = {
   DARK: 'bg-[#3a3a3c] border-[#2a2a2c] text-white',
 };
 
+// Tile colors per theme - GREEN/YELLOW are the CORRECT/PRESENT slots, whatever their color
+export const THEME_COLORS: Record<TileTheme, typeof COLORS> = {
+  classic: COLORS,
+  colorblind: {
+    GREEN: 'bg-[#f5793a] border-[#c95a1e] text-white',
+    YELLOW: 'bg-[#85c0f9] border-[#5b9ad6] text-[#0b2540]',
+    GRAY: COLORS.GRAY,
+    DARK: COLORS.DARK,
+  },
+  'high-contrast': {
+    GREEN: 'bg-[#006b2d] border-black text-white',
+    YELLOW: 'bg-[#ffd400] border-black text-black',
+    GRAY: 'bg-white border-black text-black',
+    DARK: 'bg-black border-[#555555] text-white',
+  },
+};
+
+// Share grid squares per theme
+export const THEME_EMOJI: Record<TileTheme, { CORRECT: string; PRESENT: string; WRONG: string }> = {
+  classic: { CORRECT: '🟩', PRESENT: '🟨', WRONG: '⬜' },
+  colorblind: { CORRECT: '🟧', PRESENT: '🟦', WRONG: '⬜' },
+  'high-contrast': { CORRECT: '🟩', PRESENT: '🟨', WRONG: '⬛' },
+};
+
+// Shapes drawn on tiles so status isn't shown by color alone
+export const STATUS_MARKERS = {
+  CORRECT: '✓',
+  PRESENT: '↔',
+};
+
 const RAW_WORDS = [
     'отпад', 'крема', 'женка', 'тутун', 'робот', 'лекар', 'ефект', 'куфер', 'пејач', 'плажа',
     'долап', 'чинар', 'мотор', 'барок', 'жртва', 'пруга', 'ќумур', 'тигар', 'крило', 'флека',
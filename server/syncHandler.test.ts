@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Server, createServer, request } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createSyncHandler } from './syncHandler';
+import { SyncPayload, createSyncPayload } from '../utils/syncProtocol';
+
+const PLAYER = 'player-id-0123456789';
+
+const laptop = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17' }], []);
+const phone = createSyncPayload([{ puzzleId: 2, stars: 3, date: '2026-01-18' }], []);
+
+describe('createSyncHandler', () => {
+  let server: Server;
+  let players: Map<string, SyncPayload>;
+  let url: string;
+
+  beforeEach(async () => {
+    players = new Map();
+    server = createServer(createSyncHandler(players));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/players/${PLAYER}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // POST whose body is sent in two parts; the second part waits for `release`
+  const slowPost = (payload: SyncPayload, release: Promise<void>): Promise<SyncPayload> =>
+    new Promise((resolve, reject) => {
+      const body = JSON.stringify(payload);
+      const req = request(url, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve(JSON.parse(data)));
+      });
+      req.on('error', reject);
+      req.write(body.slice(0, 10));
+      release.then(() => req.end(body.slice(10)));
+    });
+
+  it('should return an empty payload for a new player', async () => {
+    expect(await (await fetch(url)).json()).toEqual(createSyncPayload([], []));
+  });
+
+  it('should merge pushes into the stored payload', async () => {
+    await fetch(url, { method: 'POST', body: JSON.stringify(laptop) });
+    const merged = await (await fetch(url, { method: 'POST', body: JSON.stringify(phone) })).json();
+
+    expect(merged.records.map((r: { puzzleId: number }) => r.puzzleId)).toEqual([1, 2]);
+  });
+
+  it('should keep both devices\' records when their pushes overlap', async () => {
+    let release = () => {};
+    const slow = slowPost(laptop, new Promise(resolve => (release = resolve)));
+    // Let the slow push arrive before the other one is sent and merged
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await fetch(url, { method: 'POST', body: JSON.stringify(phone) });
+    release();
+    await slow;
+
+    expect(players.get(PLAYER)?.records.map(r => r.puzzleId)).toEqual([1, 2]);
+  });
+
+  it('should reject malformed pushes and unknown players', async () => {
+    expect((await fetch(url, { method: 'POST', body: '{"version":1}' })).status).toBe(400);
+    expect((await fetch(url.replace(PLAYER, 'short'))).status).toBe(404);
+  });
+});
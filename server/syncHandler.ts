@@ -0,0 +1,96 @@
+/**
+ * Request handling of the reference sync server (see syncServer.ts), kept
+ * apart from the process setup so it can be tested.
+ *
+ *   GET  /players/{playerId}  -> the stored SyncPayload
+ *   POST /players/{playerId}  <- SyncPayload, merged into the stored one
+ */
+
+import { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  SyncPayload,
+  createSyncPayload,
+  isValidPlayerId,
+  mergeSyncPayloads,
+  parseSyncPayload,
+} from '../utils/syncProtocol';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The game is served from another origin (e.g. the Vite dev server)
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === null ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+/**
+ * Request listener over `players`; `onChange` runs after every merged push
+ * (to persist the data)
+ */
+export const createSyncHandler = (players: Map<string, SyncPayload>, onChange: () => void = () => {}) => {
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'OPTIONS') {
+      send(res, 204, null);
+      return;
+    }
+
+    const match = /^\/players\/([^/?]+)\/?$/.exec(req.url ?? '');
+    const playerId = match ? decodeURIComponent(match[1]) : null;
+    if (!playerId || !isValidPlayerId(playerId)) {
+      send(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      send(res, 200, players.get(playerId) ?? createSyncPayload([], []));
+      return;
+    }
+
+    if (req.method === 'POST') {
+      let pushed: SyncPayload;
+      try {
+        pushed = parseSyncPayload(JSON.parse(await readBody(req)));
+      } catch (error) {
+        send(res, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+        return;
+      }
+      // Read only now, after the body has arrived: a push from another device
+      // may have been merged meanwhile
+      const stored = players.get(playerId) ?? createSyncPayload([], []);
+      const merged = mergeSyncPayloads(stored, pushed);
+      players.set(playerId, merged);
+      onChange();
+      send(res, 200, merged);
+      return;
+    }
+
+    send(res, 405, { error: 'Method not allowed' });
+  };
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    handleRequest(req, res).catch(error => {
+      console.error('Sync request failed:', error);
+      send(res, 500, { error: 'Internal server error' });
+    });
+  };
+};
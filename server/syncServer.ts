@@ -0,0 +1,39 @@
+/**
+ * Reference sync server for local development of the sync protocol
+ * (see utils/syncProtocol.ts). Keeps every player's data in memory, and in a
+ * JSON file when SYNC_DATA_FILE is set.
+ *
+ *   npm run sync-server
+ *   SYNC_PORT=8787 SYNC_DATA_FILE=./sync-data.json npm run sync-server
+ *
+ * Not meant for production: no authentication beyond the unguessable player id.
+ */
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { SyncPayload, parseSyncPayload } from '../utils/syncProtocol';
+import { createSyncHandler } from './syncHandler';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE;
+
+const players = new Map<string, SyncPayload>();
+
+const loadData = () => {
+  if (!DATA_FILE || !existsSync(DATA_FILE)) return;
+  const data = JSON.parse(readFileSync(DATA_FILE, 'utf8')) as Record<string, unknown>;
+  for (const [playerId, payload] of Object.entries(data)) {
+    players.set(playerId, parseSyncPayload(payload));
+  }
+};
+
+const saveData = () => {
+  if (!DATA_FILE) return;
+  writeFileSync(DATA_FILE, JSON.stringify(Object.fromEntries(players)));
+};
+
+loadData();
+
+createServer(createSyncHandler(players, saveData)).listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}${DATA_FILE ? `, saving to ${DATA_FILE}` : ''}`);
+});
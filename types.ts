@@ -17,13 +17,39 @@ export interface CellData {
 
 export type Grid = CellData[][];
 
+export interface Swap {
+  from: Coords;
+  to: Coords;
+}
+
+// One entry of a game's move log (undos are logged as the reverse swap)
+export interface MoveRecord extends Swap {
+  fromStatus: CellStatus; // Color of the `from` cell after the swap
+  toStatus: CellStatus;   // Color of the `to` cell after the swap
+  timestamp: number;
+  isUndo?: boolean;
+}
+
 export interface DailyPuzzle {
   id: number;
+  date: string; // YYYY-MM-DD (Amsterdam)
   solution: string[][];
+  initialGrid: Grid;
 }
 
 export type GameStatus = 'PLAYING' | 'WON' | 'LOST';
 
+export type Direction = 'up' | 'down' | 'left' | 'right';
+
+// How undoing a swap is charged: refunded, an extra swap, or not allowed (hard mode)
+export type UndoMode = 'refund' | 'penalty' | 'disabled';
+
+// Tile palette: the original colors, colorblind-safe orange/blue, or high contrast
+export type TileTheme = 'classic' | 'colorblind' | 'high-contrast';
+
+// How tiles are swapped: drag one onto another, or tap one and then the other
+export type InputMode = 'drag' | 'tap';
+
 export interface StatsDistribution {
   failed: number;
   stars0: number;
@@ -47,4 +73,9 @@ export interface GameRecord {
   puzzleId: number;
   stars: number;
   date: string;
+  hintsUsed?: number; // Missing in records saved before hints existed
+  recordedAt?: number; // ms since epoch, when the result was saved (missing in older records)
+  // Kept from the saved game once it is pruned (see retention.ts)
+  finalGrid?: string; // Letters of the final board, row by row without the gaps
+  moves?: MoveRecord[];
 }
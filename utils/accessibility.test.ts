@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRowHeader,
+  getColumnHeader,
+  getTileLabel,
+  getSwapAnnouncement,
+  getSwapsLeftText,
+} from './accessibility';
+import { isValidCell, swapCells, updateColors } from './gameLogic';
+import { CellStatus, Grid } from '../types';
+
+const testSolution: string[][] = [
+  ['К', 'О', 'П', 'Н', 'О'],
+  ['А', ' ', 'О', ' ', 'Р'],
+  ['Н', 'А', 'Р', 'О', 'Д'],
+  ['Т', ' ', 'И', ' ', 'Е'],
+  ['А', 'Ј', 'В', 'А', 'Н']
+];
+
+// Solved grid with the К/Р (0,0)-(2,2) letters swapped
+const buildSampleGrid = (): Grid => {
+  const grid: Grid = testSolution.map((row, r) =>
+    row.map((char, c) => ({
+      char: isValidCell(r, c) ? char : '',
+      status: isValidCell(r, c) ? CellStatus.WRONG : CellStatus.NONE
+    }))
+  );
+  grid[0][0].char = 'Р';
+  grid[2][2].char = 'К';
+  return updateColors(grid, testSolution);
+};
+
+describe('word headers', () => {
+  it('should name the three horizontal words', () => {
+    expect(getRowHeader(0)).toBe('Хоризонтален збор 1');
+    expect(getRowHeader(2)).toBe('Хоризонтален збор 2');
+    expect(getRowHeader(4)).toBe('Хоризонтален збор 3');
+  });
+
+  it('should name the three vertical words', () => {
+    expect(getColumnHeader(0)).toBe('Вертикален збор 1');
+    expect(getColumnHeader(2)).toBe('Вертикален збор 2');
+    expect(getColumnHeader(4)).toBe('Вертикален збор 3');
+  });
+
+  it('should fall back to plain numbers between the words', () => {
+    expect(getRowHeader(1)).toBe('Ред 2');
+    expect(getColumnHeader(3)).toBe('Колона 4');
+  });
+});
+
+describe('getTileLabel', () => {
+  it('should announce the letter, position and status', () => {
+    expect(getTileLabel({ char: 'П', status: CellStatus.CORRECT }, 0, 2)).toBe('П, ред 1, колона 3, точна позиција');
+    expect(getTileLabel({ char: 'Е', status: CellStatus.PRESENT }, 3, 4)).toBe('Е, ред 4, колона 5, погрешна позиција');
+    expect(getTileLabel({ char: 'Ж', status: CellStatus.WRONG }, 4, 0)).toBe('Ж, ред 5, колона 1, не е во зборот');
+  });
+
+  it('should label the gaps as empty', () => {
+    expect(getTileLabel({ char: '', status: CellStatus.NONE }, 1, 1)).toBe('празно поле');
+  });
+});
+
+describe('getSwapAnnouncement', () => {
+  it('should announce where both letters went and the swaps left', () => {
+    const grid = swapCells(buildSampleGrid(), { row: 2, col: 2 }, { row: 0, col: 0 }, testSolution);
+
+    expect(getSwapAnnouncement(grid, { row: 2, col: 2 }, { row: 0, col: 0 }, 9)).toBe(
+      'К преместена во ред 1, колона 1, сега зелена; Р преместена во ред 3, колона 3, сега зелена; преостануваат 9 потези'
+    );
+  });
+
+  it('should name yellow and gray results', () => {
+    const grid = swapCells(buildSampleGrid(), { row: 0, col: 0 }, { row: 0, col: 1 }, testSolution);
+    const announcement = getSwapAnnouncement(grid, { row: 0, col: 0 }, { row: 0, col: 1 }, 1);
+
+    expect(announcement).toMatch(/^Р преместена во ред 1, колона 2, сега (жолта|сива); О преместена во ред 1, колона 1, сега (жолта|сива); /);
+    expect(announcement.endsWith('преостанува 1 потег')).toBe(true);
+  });
+});
+
+describe('getSwapsLeftText', () => {
+  it('should use the singular for one swap', () => {
+    expect(getSwapsLeftText(1)).toBe('преостанува 1 потег');
+    expect(getSwapsLeftText(0)).toBe('преостануваат 0 потези');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Screen reader texts for the board: tile names, word headers and swap announcements
+ */
+
+import { CellData, CellStatus, Coords, Grid } from '../types';
+import { isValidCell } from './gameLogic';
+
+const STATUS_LABELS: Record<CellStatus, string> = {
+  [CellStatus.CORRECT]: 'точна позиција',
+  [CellStatus.PRESENT]: 'погрешна позиција',
+  [CellStatus.WRONG]: 'не е во зборот',
+  [CellStatus.NONE]: 'празно поле',
+};
+
+const COLOR_NAMES: Record<CellStatus, string> = {
+  [CellStatus.CORRECT]: 'зелена',
+  [CellStatus.PRESENT]: 'жолта',
+  [CellStatus.WRONG]: 'сива',
+  [CellStatus.NONE]: '',
+};
+
+// DOM id of a board tile, for aria-activedescendant
+export const getTileId = (row: number, col: number): string => `waffle-tile-${row}-${col}`;
+
+// Words run along rows and columns 0, 2 and 4
+const wordNumber = (index: number): number | null => (index % 2 === 0 ? index / 2 + 1 : null);
+
+// Header of a board row: the horizontal word it holds, if any
+export const getRowHeader = (row: number): string => {
+  const word = wordNumber(row);
+  return word ? `Хоризонтален збор ${word}` : `Ред ${row + 1}`;
+};
+
+// Header of a board column: the vertical word it holds, if any
+export const getColumnHeader = (col: number): string => {
+  const word = wordNumber(col);
+  return word ? `Вертикален збор ${word}` : `Колона ${col + 1}`;
+};
+
+// Accessible name of a tile, e.g. "П, ред 1, колона 1, точна позиција"
+export const getTileLabel = (cell: CellData, row: number, col: number): string => {
+  if (!isValidCell(row, col) || cell.status === CellStatus.NONE) {
+    return STATUS_LABELS[CellStatus.NONE];
+  }
+  return `${cell.char}, ред ${row + 1}, колона ${col + 1}, ${STATUS_LABELS[cell.status]}`;
+};
+
+export const getSwapsLeftText = (swapsLeft: number): string =>
+  swapsLeft === 1 ? 'преостанува 1 потег' : `преостануваат ${swapsLeft} потези`;
+
+/**
+ * Live announcement after a swap, read from the grid after the swap, e.g.
+ * "Р преместена во ред 3, колона 1, сега зелена; Е преместена во ред 1, колона 1, сега сива; преостануваат 9 потези"
+ */
+export const getSwapAnnouncement = (
+  grid: Grid,
+  from: Coords,
+  to: Coords,
+  swapsLeft: number
+): string => {
+  const describe = ({ row, col }: Coords) => {
+    const cell = grid[row][col];
+    return `${cell.char} преместена во ред ${row + 1}, колона ${col + 1}, сега ${COLOR_NAMES[cell.status]}`;
+  };
+  // The letter picked up lands on `to`, so it is announced first
+  return `${describe(to)}; ${describe(from)}; ${getSwapsLeftText(swapsLeft)}`;
+};
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { BACKUP_VERSION, createBackup, getPreferences, mergeStores, parseBackup } from './backup';
+import { StoreSnapshot, SavedGameState, computeStatsFromRecords } from './statsDb';
+import { getPuzzleById } from './daily';
+import { CellStatus, GameRecord, MoveRecord } from '../types';
+
+const emptyStores = (): StoreSnapshot => ({
+  gameRecords: [],
+  stats: null,
+  gameState: [],
+  archiveRecords: [],
+  archiveGameState: [],
+});
+
+const gameState = (puzzleId: number, overrides: Partial<SavedGameState> = {}): SavedGameState => {
+  const puzzle = getPuzzleById(puzzleId);
+  return {
+    puzzleId,
+    grid: puzzle.initialGrid,
+    swaps: 15,
+    status: 'PLAYING',
+    history: [],
+    moves: [],
+    ...overrides,
+  };
+};
+
+// Minimal localStorage stand-in
+const fakeStorage = (entries: Record<string, string>) => {
+  const keys = Object.keys(entries);
+  return {
+    length: keys.length,
+    key: (i: number) => keys[i] ?? null,
+    getItem: (key: string) => entries[key] ?? null,
+  };
+};
+
+describe('getPreferences', () => {
+  it('should collect only the game preferences', () => {
+    const storage = fakeStorage({
+      'mkwaffle-dark-mode': 'true',
+      'mkwaffle-undo-mode': 'refund',
+      'other-app': 'x',
+    });
+
+    expect(getPreferences(storage)).toEqual({
+      'mkwaffle-dark-mode': 'true',
+      'mkwaffle-undo-mode': 'refund',
+    });
+  });
+});
+
+describe('parseBackup', () => {
+  const records: GameRecord[] = [
+    { puzzleId: 1, stars: 5, date: '2026-01-17' },
+    { puzzleId: 2, stars: -1, date: '2026-01-18', hintsUsed: 1 },
+  ];
+
+  const validBackup = () => createBackup(
+    { ...emptyStores(), gameRecords: records, gameState: [gameState(2)], stats: computeStatsFromRecords(records) },
+    { 'mkwaffle-dark-mode': 'true' },
+    new Date('2026-02-01T10:00:00Z')
+  );
+
+  it('should round-trip an exported backup', () => {
+    const parsed = parseBackup(JSON.stringify(validBackup()));
+
+    expect(parsed.version).toBe(BACKUP_VERSION);
+    expect(parsed.exportedAt).toBe('2026-02-01T10:00:00.000Z');
+    expect(parsed.stores.gameRecords).toEqual(records);
+    expect(parsed.stores.gameState).toEqual([gameState(2)]);
+    expect(parsed.preferences).toEqual({ 'mkwaffle-dark-mode': 'true' });
+    expect(parsed.stores.stats).toEqual(computeStatsFromRecords(records));
+  });
+
+  it('should reject malformed stats', () => {
+    const stats = { ...computeStatsFromRecords(records), bestStreak: -3 };
+    const backup = { ...validBackup(), stores: { ...validBackup().stores, stats } };
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('статистика');
+  });
+
+  it('should drop the solution kept by older saved games', () => {
+    const old = { ...gameState(2), solution: getPuzzleById(2).solution };
+    const backup = { ...validBackup(), stores: { gameState: [old], archiveGameState: [old] } };
+    const parsed = parseBackup(JSON.stringify(backup));
+
+    expect(parsed.stores.gameState).toEqual([gameState(2)]);
+    expect(parsed.stores.archiveGameState).toEqual([gameState(2)]);
+  });
+
+  it('should treat missing stores as empty', () => {
+    const backup = { ...validBackup(), stores: { gameRecords: records } };
+    const parsed = parseBackup(JSON.stringify(backup));
+
+    expect(parsed.stores.gameState).toEqual([]);
+    expect(parsed.stores.archiveRecords).toEqual([]);
+  });
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parseBackup('not json')).toThrow('JSON');
+  });
+
+  it('should reject JSON that is not a backup', () => {
+    expect(() => parseBackup(JSON.stringify({ hello: 'world' }))).toThrow();
+    expect(() => parseBackup(JSON.stringify([1, 2, 3]))).toThrow();
+  });
+
+  it('should reject backups from a newer version', () => {
+    const backup = { ...validBackup(), version: BACKUP_VERSION + 1 };
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('понова верзија');
+  });
+
+  it('should reject malformed records', () => {
+    for (const bad of [
+      { puzzleId: 0, stars: 5, date: '2026-01-17' },
+      { puzzleId: 1, stars: 6, date: '2026-01-17' },
+      { puzzleId: 1, stars: 5, date: '17.01.2026' },
+      { puzzleId: '1', stars: 5, date: '2026-01-17' },
+    ]) {
+      const backup = { ...validBackup(), stores: { gameRecords: [bad] } };
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('gameRecords');
+    }
+  });
+
+  it('should reject malformed game states', () => {
+    const state = gameState(2);
+    for (const bad of [
+      { ...state, grid: state.grid.slice(1) },
+      { ...state, status: 'PAUSED' },
+      { ...state, swaps: 'many' },
+    ]) {
+      const backup = { ...validBackup(), stores: { gameState: [bad] } };
+      expect(() => parseBackup(JSON.stringify(backup))).toThrow('gameState');
+    }
+  });
+
+  it('should reject preferences of other apps', () => {
+    const backup = { ...validBackup(), preferences: { 'other-app': 'x' } };
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow();
+  });
+});
+
+describe('mergeStores', () => {
+  it('should add imported records without dropping local ones', () => {
+    const local = { ...emptyStores(), gameRecords: [{ puzzleId: 3, stars: 4, date: '2026-01-19' }] };
+    const imported = { ...emptyStores(), gameRecords: [{ puzzleId: 1, stars: 5, date: '2026-01-17' }] };
+
+    const merged = mergeStores(local, imported);
+
+    expect(merged.gameRecords.map(r => r.puzzleId)).toEqual([1, 3]);
+  });
+
+  it('should keep the first result when both devices played a puzzle', () => {
+    const local = { ...emptyStores(), gameRecords: [{ puzzleId: 1, stars: 2, date: '2026-01-18' }] };
+    const imported = { ...emptyStores(), gameRecords: [{ puzzleId: 1, stars: 5, date: '2026-01-17' }] };
+
+    expect(mergeStores(local, imported).gameRecords).toEqual([{ puzzleId: 1, stars: 5, date: '2026-01-17' }]);
+    expect(mergeStores(imported, local).gameRecords).toEqual([{ puzzleId: 1, stars: 5, date: '2026-01-17' }]);
+  });
+
+  it('should rebuild stats so streaks span both devices', () => {
+    const local = { ...emptyStores(), gameRecords: [{ puzzleId: 2, stars: 3, date: '2026-01-18' }] };
+    const imported = { ...emptyStores(), gameRecords: [{ puzzleId: 1, stars: 5, date: '2026-01-17' }] };
+
+    const stats = mergeStores(local, imported).stats!;
+
+    expect(stats.played).toBe(2);
+    expect(stats.totalStars).toBe(8);
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.lastPlayedDate).toBe('2026-01-18');
+  });
+
+  it('should keep the longer best streak of either side', () => {
+    const gameRecords = [{ puzzleId: 1, stars: 5, date: '2026-01-17' }];
+    const stats = (bestStreak: number) => ({ ...computeStatsFromRecords(gameRecords), bestStreak });
+    const local = { ...emptyStores(), gameRecords, stats: stats(12) };
+    const imported = { ...emptyStores(), gameRecords, stats: stats(20) };
+
+    expect(mergeStores(local, { ...emptyStores(), gameRecords }).stats?.bestStreak).toBe(12);
+    expect(mergeStores(local, imported).stats?.bestStreak).toBe(20);
+  });
+
+  it('should carry the best streak of an exported file through the import', () => {
+    const gameRecords = [{ puzzleId: 1, stars: 5, date: '2026-01-17' }];
+    const exported = createBackup({ ...emptyStores(), gameRecords, stats: { ...computeStatsFromRecords(gameRecords), bestStreak: 9 } }, {});
+
+    const merged = mergeStores(emptyStores(), parseBackup(JSON.stringify(exported)).stores);
+
+    expect(merged.stats?.bestStreak).toBe(9);
+  });
+
+  it('should prefer a finished game over one in progress', () => {
+    const local = { ...emptyStores(), gameState: [gameState(5)] };
+    const imported = { ...emptyStores(), gameState: [gameState(5, { status: 'WON', swaps: 4 })] };
+
+    expect(mergeStores(local, imported).gameState[0].status).toBe('WON');
+    expect(mergeStores(imported, local).gameState[0].status).toBe('WON');
+  });
+
+  it('should prefer the in-progress game that got further', () => {
+    const move: MoveRecord = {
+      from: { row: 0, col: 0 },
+      to: { row: 0, col: 1 },
+      fromStatus: CellStatus.WRONG,
+      toStatus: CellStatus.WRONG,
+      timestamp: 0,
+    };
+    const local = { ...emptyStores(), gameState: [gameState(5, { moves: [move] })] };
+    const imported = { ...emptyStores(), gameState: [gameState(5, { moves: [move, move, move] })] };
+
+    expect(mergeStores(local, imported).gameState[0].moves?.length).toBe(3);
+  });
+
+  it('should merge archive stores the same way', () => {
+    const local = { ...emptyStores(), archiveRecords: [{ puzzleId: 4, stars: 1, date: '2026-03-01' }] };
+    const imported = { ...emptyStores(), archiveRecords: [{ puzzleId: 9, stars: 5, date: '2026-03-02' }] };
+
+    expect(mergeStores(local, imported).archiveRecords.map(r => r.puzzleId)).toEqual([4, 9]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Export and import of all player data: every IndexedDB store plus the
+ * `mkwaffle-*` preferences in localStorage, as one versioned JSON file.
+ */
+
+import { GameStats } from '../types';
+import { StoreSnapshot, computeStatsFromRecords, readAllStores, updateAllStores, withBestStreak } from './statsDb';
+import {
+  isGameRecord,
+  isGameStats,
+  isObject,
+  isSavedGameState,
+  mergeByPuzzleId,
+  pickGameState,
+  pickRecord,
+  withoutSolution,
+} from './playerData';
+
+export const BACKUP_VERSION = 1;
+const BACKUP_APP = 'mkwaffle';
+const PREFERENCE_PREFIX = 'mkwaffle-';
+
+export interface PlayerBackup {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  stores: StoreSnapshot;
+  preferences: Record<string, string>;
+}
+
+type PreferenceStorage = Pick<Storage, 'length' | 'key' | 'getItem'>;
+
+// All of the game's preferences (localStorage keys starting with mkwaffle-)
+export const getPreferences = (storage: PreferenceStorage): Record<string, string> => {
+  const preferences: Record<string, string> = {};
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (!key || !key.startsWith(PREFERENCE_PREFIX)) continue;
+    const value = storage.getItem(key);
+    if (value !== null) preferences[key] = value;
+  }
+  return preferences;
+};
+
+export const createBackup = (
+  stores: StoreSnapshot,
+  preferences: Record<string, string>,
+  now: Date = new Date()
+): PlayerBackup => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: now.toISOString(),
+  stores,
+  preferences,
+});
+
+// ============ VALIDATION ============
+
+const checkList = <T>(value: unknown, isItem: (item: unknown) => item is T, name: string): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new Error(`Неисправна датотека: „${name}“ не е листа.`);
+  const invalid = value.findIndex(item => !isItem(item));
+  if (invalid !== -1) throw new Error(`Неисправна датотека: запис ${invalid + 1} во „${name}“ е оштетен.`);
+  return value;
+};
+
+const checkStats = (value: unknown): GameStats | null => {
+  if (value === undefined || value === null) return null;
+  if (!isGameStats(value)) throw new Error('Неисправна датотека: оштетена статистика.');
+  return value;
+};
+
+/**
+ * Parse and validate an exported file. Throws an Error with a message for
+ * the player if the file isn't a backup or any entry is malformed.
+ */
+export const parseBackup = (text: string): PlayerBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Датотеката не е во JSON формат.');
+  }
+
+  if (!isObject(data) || data.app !== BACKUP_APP) {
+    throw new Error('Датотеката не е резервна копија од Вафла.');
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    throw new Error('Неисправна датотека: непозната верзија.');
+  }
+  if ((data.version as number) > BACKUP_VERSION) {
+    throw new Error('Датотеката е од понова верзија на играта. Освежете ја страницата и обидете се повторно.');
+  }
+  if (!isObject(data.stores)) {
+    throw new Error('Неисправна датотека: недостасуваат податоците.');
+  }
+
+  const preferences = data.preferences ?? {};
+  if (!isObject(preferences) || Object.entries(preferences).some(
+    ([key, value]) => !key.startsWith(PREFERENCE_PREFIX) || typeof value !== 'string'
+  )) {
+    throw new Error('Неисправна датотека: оштетени поставки.');
+  }
+
+  const stores = data.stores;
+  return {
+    app: BACKUP_APP,
+    version: data.version as number,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    stores: {
+      gameRecords: checkList(stores.gameRecords, isGameRecord, 'gameRecords'),
+      // Stats are rebuilt from the records on import; only the best streak is carried over
+      stats: checkStats(stores.stats),
+      gameState: checkList(stores.gameState, isSavedGameState, 'gameState').map(withoutSolution),
+      archiveRecords: checkList(stores.archiveRecords, isGameRecord, 'archiveRecords'),
+      archiveGameState: checkList(stores.archiveGameState, isSavedGameState, 'archiveGameState').map(withoutSolution),
+    },
+    preferences: preferences as Record<string, string>,
+  };
+};
+
+// ============ MERGE ============
+
+/**
+ * Merge an imported backup into the local stores. Nothing local is dropped;
+ * stats are recomputed from the merged records, so streaks span both devices,
+ * and the longer best streak of either side is kept.
+ */
+export const mergeStores = (local: StoreSnapshot, imported: StoreSnapshot): StoreSnapshot => {
+  const gameRecords = mergeByPuzzleId(local.gameRecords, imported.gameRecords, pickRecord);
+  const bestStreak = Math.max(local.stats?.bestStreak ?? 0, imported.stats?.bestStreak ?? 0);
+  return {
+    gameRecords,
+    stats: withBestStreak(computeStatsFromRecords(gameRecords), bestStreak),
+    gameState: mergeByPuzzleId(local.gameState, imported.gameState, pickGameState),
+    archiveRecords: mergeByPuzzleId(local.archiveRecords, imported.archiveRecords, pickRecord),
+    archiveGameState: mergeByPuzzleId(local.archiveGameState, imported.archiveGameState, pickGameState),
+  };
+};
+
+// ============ FILE I/O ============
+
+// Everything the player has, as a JSON string
+export async function exportPlayerData(): Promise<string> {
+  const stores = await readAllStores();
+  return JSON.stringify(createBackup(stores, getPreferences(localStorage)), null, 2);
+}
+
+// Merge an exported file into this browser's data; throws with a player-facing message if invalid
+export async function importPlayerData(text: string): Promise<void> {
+  const backup = parseBackup(text);
+  await updateAllStores(local => mergeStores(local, backup.stores));
+  for (const [key, value] of Object.entries(backup.preferences)) {
+    localStorage.setItem(key, value);
+  }
+}
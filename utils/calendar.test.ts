@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { formatDate, getCalendarWeeks, getMonthRange, shiftMonth, toDateString } from './calendar';
+
+describe('toDateString', () => {
+  it('should zero-pad month and day', () => {
+    expect(toDateString(2026, 1, 7)).toBe('2026-01-07');
+    expect(toDateString(2026, 12, 31)).toBe('2026-12-31');
+  });
+});
+
+describe('formatDate', () => {
+  it('should format as DD.MM.YYYY', () => {
+    expect(formatDate('2026-01-17')).toBe('17.01.2026');
+  });
+});
+
+describe('getMonthRange', () => {
+  it('should span the whole month', () => {
+    expect(getMonthRange(2026, 1)).toEqual({ start: '2026-01-01', end: '2026-01-31' });
+    expect(getMonthRange(2026, 4)).toEqual({ start: '2026-04-01', end: '2026-04-30' });
+  });
+
+  it('should handle February in common and leap years', () => {
+    expect(getMonthRange(2026, 2).end).toBe('2026-02-28');
+    expect(getMonthRange(2028, 2).end).toBe('2028-02-29');
+  });
+});
+
+describe('getCalendarWeeks', () => {
+  it('should start weeks on Monday', () => {
+    // January 1, 2026 is a Thursday
+    const weeks = getCalendarWeeks(2026, 1);
+    expect(weeks[0]).toEqual([null, null, null, '2026-01-01', '2026-01-02', '2026-01-03', '2026-01-04']);
+  });
+
+  it('should contain every day of the month once, in order', () => {
+    const days = getCalendarWeeks(2026, 3).flat().filter(d => d !== null);
+    expect(days.length).toBe(31);
+    expect(days[0]).toBe('2026-03-01');
+    expect(days[30]).toBe('2026-03-31');
+  });
+
+  it('should pad the last week to seven days', () => {
+    const weeks = getCalendarWeeks(2026, 3);
+    for (const week of weeks) {
+      expect(week.length).toBe(7);
+    }
+    // March 31, 2026 is a Tuesday
+    expect(weeks[weeks.length - 1]).toEqual(['2026-03-30', '2026-03-31', null, null, null, null, null]);
+  });
+
+  it('should fit a month starting on Monday without padding', () => {
+    // June 1, 2026 is a Monday
+    expect(getCalendarWeeks(2026, 6)[0][0]).toBe('2026-06-01');
+  });
+});
+
+describe('shiftMonth', () => {
+  it('should move within a year', () => {
+    expect(shiftMonth(2026, 5, 1)).toEqual({ year: 2026, month: 6 });
+    expect(shiftMonth(2026, 5, -1)).toEqual({ year: 2026, month: 4 });
+  });
+
+  it('should wrap across years', () => {
+    expect(shiftMonth(2026, 12, 1)).toEqual({ year: 2027, month: 1 });
+    expect(shiftMonth(2026, 1, -1)).toEqual({ year: 2025, month: 12 });
+    expect(shiftMonth(2026, 1, -13)).toEqual({ year: 2024, month: 12 });
+  });
+});
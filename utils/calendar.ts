@@ -0,0 +1,57 @@
+/**
+ * Month grids for the statistics calendar
+ */
+
+export const MONTH_NAMES = [
+  'Јануари', 'Февруари', 'Март', 'Април', 'Мај', 'Јуни',
+  'Јули', 'Август', 'Септември', 'Октомври', 'Ноември', 'Декември',
+];
+
+// Weeks start on Monday
+export const WEEKDAY_NAMES = ['П', 'В', 'С', 'Ч', 'П', 'С', 'Н'];
+
+// YYYY-MM-DD for a day of a month (month is 1-12)
+export const toDateString = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// DD.MM.YYYY, the usual Macedonian date format
+export const formatDate = (dateString: string): string => {
+  const [year, month, day] = dateString.split('-');
+  return `${day}.${month}.${year}`;
+};
+
+// First and last day of a month, for date-range queries
+export const getMonthRange = (year: number, month: number): { start: string; end: string } => {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { start: toDateString(year, month, 1), end: toDateString(year, month, daysInMonth) };
+};
+
+/**
+ * Dates of a month laid out in Monday-first weeks.
+ * Cells before the 1st and after the last day are null.
+ */
+export const getCalendarWeeks = (year: number, month: number): (string | null)[][] => {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  // getUTCDay is Sunday-first
+  const offset = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7;
+
+  const cells: (string | null)[] = Array(offset).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(toDateString(year, month, day));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+};
+
+// Month `delta` months away, wrapping across years
+export const shiftMonth = (year: number, month: number, delta: number): { year: number; month: number } => {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
@@ -1,5 +1,17 @@
 import { describe, it, expect } from 'vitest';
-import { getDailySeed, seededShuffle, getDailyPuzzle, getNextMidnight } from './daily';
+import {
+  getDailySeed,
+  seededShuffle,
+  getDailyPuzzle,
+  getNextMidnight,
+  getPuzzleDateString,
+  getPuzzleById,
+  getPuzzleForDate,
+  getPuzzleIdForDate,
+  getPuzzleIdForDateString
+} from './daily';
+import { solve } from './solver';
+import { OPTIMAL_SWAPS } from '../constants';
 
 describe('getDailySeed', () => {
   it('should return a number', () => {
@@ -166,6 +178,122 @@ describe('getDailyPuzzle', () => {
   });
 });
 
+describe('getPuzzleById', () => {
+  it('should return the puzzle for the given number', () => {
+    const puzzle = getPuzzleById(1);
+    expect(puzzle.id).toBe(1);
+    expect(puzzle.date).toBe('2026-01-17');
+  });
+
+  it('should always return the same solution for a puzzle number', () => {
+    // Pinned so that changes to the word list or generator are noticed
+    expect(getPuzzleById(1).solution).toEqual([
+      ['К', 'О', 'П', 'Н', 'О'],
+      ['А', ' ', 'О', ' ', 'Р'],
+      ['Н', 'А', 'Р', 'О', 'Д'],
+      ['Т', ' ', 'И', ' ', 'Е'],
+      ['А', 'Ј', 'В', 'А', 'Н']
+    ]);
+  });
+
+  it('should include a starting grid that needs exactly OPTIMAL_SWAPS swaps', () => {
+    const puzzle = getPuzzleById(1);
+    expect(solve(puzzle.initialGrid, puzzle.solution)?.swaps).toBe(OPTIMAL_SWAPS);
+  });
+
+  // The generator settles for the closest grid when no candidate needs exactly
+  // OPTIMAL_SWAPS, so check that this never happens for the puzzles players get
+  it('should need exactly OPTIMAL_SWAPS swaps for puzzles #1-#400', () => {
+    const misses: number[] = [];
+    for (let id = 1; id <= 400; id++) {
+      const puzzle = getPuzzleById(id);
+      if (solve(puzzle.initialGrid, puzzle.solution)?.swaps !== OPTIMAL_SWAPS) misses.push(id);
+    }
+    expect(misses).toEqual([]);
+  });
+
+  it('should be deterministic', () => {
+    expect(getPuzzleById(5)).toEqual(getPuzzleById(5));
+  });
+
+  it('should produce different puzzles for different numbers', () => {
+    expect(getPuzzleById(1).solution).not.toEqual(getPuzzleById(2).solution);
+  });
+
+  it('should match today\'s puzzle when given today\'s number', () => {
+    expect(getPuzzleById(getDailySeed())).toEqual(getDailyPuzzle());
+  });
+});
+
+describe('getPuzzleIdForDate', () => {
+  it('should return 1 on launch day', () => {
+    expect(getPuzzleIdForDate(new Date('2026-01-17T12:00:00Z'))).toBe(1);
+  });
+
+  it('should return 1 for dates before launch', () => {
+    expect(getPuzzleIdForDate(new Date('2025-06-01T12:00:00Z'))).toBe(1);
+  });
+
+  it('should switch at Amsterdam midnight, not UTC midnight', () => {
+    // 23:30 UTC on Jan 17 is already 00:30 on Jan 18 in Amsterdam (CET, UTC+1)
+    expect(getPuzzleIdForDate(new Date('2026-01-17T22:59:00Z'))).toBe(1);
+    expect(getPuzzleIdForDate(new Date('2026-01-17T23:30:00Z'))).toBe(2);
+  });
+
+  it('should use summer time offset after DST starts', () => {
+    // 22:30 UTC on Mar 29 is 00:30 on Mar 30 in Amsterdam (CEST, UTC+2)
+    expect(getPuzzleIdForDate(new Date('2026-03-29T21:59:00Z'))).toBe(72);
+    expect(getPuzzleIdForDate(new Date('2026-03-29T22:30:00Z'))).toBe(73);
+  });
+});
+
+describe('getPuzzleForDate', () => {
+  it('should return the puzzle for that day', () => {
+    const puzzle = getPuzzleForDate(new Date('2026-01-18T10:00:00Z'));
+    expect(puzzle.id).toBe(2);
+    expect(puzzle).toEqual(getPuzzleById(2));
+  });
+
+  it('should allow previewing tomorrow\'s puzzle', () => {
+    const tomorrow = new Date(getNextMidnight().getTime() + 60 * 60 * 1000);
+    expect(getPuzzleForDate(tomorrow).id).toBe(getDailySeed() + 1);
+  });
+});
+
+describe('getPuzzleDateString', () => {
+  it('should return the launch date for puzzle #1', () => {
+    expect(getPuzzleDateString(1)).toBe('2026-01-17');
+  });
+
+  it('should advance one day per puzzle', () => {
+    expect(getPuzzleDateString(2)).toBe('2026-01-18');
+    expect(getPuzzleDateString(15)).toBe('2026-01-31');
+    expect(getPuzzleDateString(16)).toBe('2026-02-01');
+  });
+
+  it('should cross year boundaries', () => {
+    expect(getPuzzleDateString(349)).toBe('2026-12-31');
+    expect(getPuzzleDateString(350)).toBe('2027-01-01');
+  });
+});
+
+describe('getPuzzleIdForDateString', () => {
+  it('should return 1 for the launch day', () => {
+    expect(getPuzzleIdForDateString('2026-01-17')).toBe(1);
+  });
+
+  it('should be the inverse of getPuzzleDateString', () => {
+    for (const id of [1, 2, 45, 349, 350, 1000]) {
+      expect(getPuzzleIdForDateString(getPuzzleDateString(id))).toBe(id);
+    }
+  });
+
+  it('should go below 1 before launch', () => {
+    expect(getPuzzleIdForDateString('2026-01-16')).toBe(0);
+    expect(getPuzzleIdForDateString('2025-12-31')).toBe(-16);
+  });
+});
+
 describe('getNextMidnight', () => {
   it('should return a Date object', () => {
     const midnight = getNextMidnight();
@@ -192,4 +320,12 @@ describe('getNextMidnight', () => {
     const midnight = getNextMidnight();
     expect(midnight.getTime()).not.toBeNaN();
   });
+
+  it('should return 23:00 UTC in winter (CET)', () => {
+    expect(getNextMidnight(new Date('2026-01-17T12:00:00Z')).toISOString()).toBe('2026-01-17T23:00:00.000Z');
+  });
+
+  it('should return 22:00 UTC in summer (CEST)', () => {
+    expect(getNextMidnight(new Date('2026-07-01T12:00:00Z')).toISOString()).toBe('2026-07-01T22:00:00.000Z');
+  });
 });
@@ -1,16 +1,9 @@
 import { WORDS } from '../constants';
 import { DailyPuzzle } from '../types';
+import { mulberry32 } from './random';
+import { generateInitialState } from './gameLogic';
 
-// Pseudo-random number generator (Mulberry32)
-// This ensures everyone gets the same shuffle for the same seed
-function mulberry32(a: number) {
-  return function() {
-    let t = a += 0x6D2B79F5;
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  }
-}
+export { seededShuffle } from './random';
 
 // The game launched on January 17, 2026 (Amsterdam timezone)
 // Puzzle #1 = Jan 17, 2026, Puzzle #2 = Jan 18, 2026, etc.
@@ -43,9 +36,9 @@ const daysSinceEpoch = (year: number, month: number, day: number): number => {
   return Math.floor(date / (24 * 60 * 60 * 1000));
 };
 
-export const getDailySeed = (): number => {
-  const now = new Date();
-  const { year, month, day } = getAmsterdamDateParts(now);
+// Puzzle number for the Amsterdam calendar day containing `date`
+export const getPuzzleIdForDate = (date: Date): number => {
+  const { year, month, day } = getAmsterdamDateParts(date);
 
   const todayDays = daysSinceEpoch(year, month, day);
   const launchDays = daysSinceEpoch(LAUNCH_YEAR, LAUNCH_MONTH, LAUNCH_DAY);
@@ -57,9 +50,22 @@ export const getDailySeed = (): number => {
   return Math.max(1, puzzleNumber);
 };
 
-export const getNextMidnight = (): Date => {
-  const now = new Date();
+export const getDailySeed = (): number => getPuzzleIdForDate(new Date());
+
+// Date (YYYY-MM-DD, Amsterdam calendar) on which a given puzzle number was the daily puzzle
+export const getPuzzleDateString = (puzzleNumber: number): string => {
+  const date = new Date(Date.UTC(LAUNCH_YEAR, LAUNCH_MONTH - 1, LAUNCH_DAY + puzzleNumber - 1));
+  return date.toISOString().slice(0, 10);
+};
+
+// Puzzle number for a YYYY-MM-DD date - the inverse of getPuzzleDateString (below 1 before launch)
+export const getPuzzleIdForDateString = (dateString: string): number => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return daysSinceEpoch(year, month, day) - daysSinceEpoch(LAUNCH_YEAR, LAUNCH_MONTH, LAUNCH_DAY) + 1;
+};
 
+// Next Amsterdam midnight after `now`
+export const getNextMidnight = (now: Date = new Date()): Date => {
   // Get Amsterdam date parts using the same reliable method as getDailySeed
   const { year, month, day } = getAmsterdamDateParts(now);
 
@@ -92,17 +98,6 @@ export const getNextMidnight = (): Date => {
   return new Date(amsterdamMidnightUTC);
 };
 
-// Shuffler using the daily seed
-export const seededShuffle = <T,>(array: T[], seed: number): T[] => {
-  const rng = mulberry32(seed);
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-};
-
 // --- Puzzle Generation Logic ---
 
 const FALLBACK_SOLUTION = [
@@ -113,23 +108,48 @@ const FALLBACK_SOLUTION = [
     ['Ч', 'Е', 'К', 'О', 'Р']
 ];
 
-export const getDailyPuzzle = (): DailyPuzzle => {
-  const seed = getDailySeed();
+const solutionCache = new Map<number, string[][]>();
+
+// Solution of a puzzle number, regenerated on demand (and cached) rather than
+// stored, so it never sits in the player's storage.
+export const getSolutionById = (id: number): string[][] => {
+  const cached = solutionCache.get(id);
+  if (cached) return cached;
 
+  let solution = FALLBACK_SOLUTION;
   try {
-    const puzzle = generatePuzzle(seed);
-    if (puzzle) return puzzle;
+    const generated = generatePuzzle(id);
+    if (generated) solution = generated;
   } catch (e) {
     console.error("Puzzle generation failed:", e);
   }
 
+  solutionCache.set(id, solution);
+  return solution;
+};
+
+// Full puzzle (solution and starting grid) for a puzzle number.
+// Deterministic: the same number always gives the same puzzle, whatever the current date.
+export const getPuzzleById = (id: number): DailyPuzzle => {
+  const solution = getSolutionById(id);
+
   return {
-    id: seed,
-    solution: FALLBACK_SOLUTION
+    id,
+    date: getPuzzleDateString(id),
+    solution,
+    initialGrid: generateInitialState(solution, id)
   };
 };
 
-const generatePuzzle = (seed: number): DailyPuzzle | null => {
+// Full puzzle for the Amsterdam calendar day containing `date`
+export const getPuzzleForDate = (date: Date): DailyPuzzle => {
+  return getPuzzleById(getPuzzleIdForDate(date));
+};
+
+// Today's puzzle
+export const getDailyPuzzle = (): DailyPuzzle => getPuzzleForDate(new Date());
+
+const generatePuzzle = (seed: number): string[][] | null => {
     const rng = mulberry32(seed);
 
     // Shuffle words to ensure randomness each day
@@ -202,10 +222,7 @@ const generatePuzzle = (seed: number): DailyPuzzle | null => {
 
                         if (h3) {
                             // Valid puzzle found!
-                            return {
-                                id: seed,
-                                solution: buildGrid(h1, h2, h3, v1, v2, v3)
-                            };
+                            return buildGrid(h1, h2, h3, v1, v2, v3);
                         }
                         exclude.delete(h2);
                     }
@@ -0,0 +1,135 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { closeDB, createRepository, getDB, getStorageKind, setBackend, withTransaction } from './db';
+import { RECORDS_STORE, STATS_STORE } from './migrations';
+import { GameRecord, GameStats } from '../types';
+
+const records = createRepository<GameRecord, number>(RECORDS_STORE);
+const stats = createRepository<GameStats, string>(STATS_STORE);
+
+beforeEach(async () => {
+  await closeDB();
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('getDB', () => {
+  it('should open the database once and share the connection', async () => {
+    const open = vi.spyOn(globalThis.indexedDB, 'open');
+
+    const [a, b] = await Promise.all([getDB(), getDB()]);
+    await records.getAll();
+
+    expect(a).toBe(b);
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open a new connection after closing', async () => {
+    const first = await getDB();
+    await closeDB();
+
+    expect(await getDB()).not.toBe(first);
+  });
+});
+
+describe('createRepository', () => {
+  const record: GameRecord = { puzzleId: 1, stars: 5, date: '2026-01-17' };
+
+  it('should put, get and delete entries', async () => {
+    await records.put(record);
+    expect(await records.get(1)).toEqual(record);
+
+    await records.delete(1);
+    expect(await records.get(1)).toBeNull();
+  });
+
+  it('should query by index', async () => {
+    await records.put(record);
+    await records.put({ puzzleId: 2, stars: 3, date: '2026-01-18' });
+    await records.put({ puzzleId: 3, stars: 1, date: '2026-01-19' });
+
+    const found = await records.getAllByIndex('date', '2026-01-18', '2026-01-19');
+
+    expect(found.map(r => r.puzzleId)).toEqual([2, 3]);
+  });
+
+  it('should store entries of stores without a keyPath under the given key', async () => {
+    await stats.put({ played: 1 } as GameStats, 'userStats');
+    expect((await stats.get('userStats'))?.played).toBe(1);
+  });
+});
+
+describe('withTransaction', () => {
+  it('should read and write in one transaction', async () => {
+    await records.put({ puzzleId: 1, stars: 2, date: '2026-01-17' });
+
+    await withTransaction([RECORDS_STORE], 'readwrite', async transaction => {
+      const store = records.within(transaction);
+      const current = await store.get(1);
+      await store.put({ ...current!, stars: current!.stars + 1 });
+    });
+
+    expect((await records.get(1))?.stars).toBe(3);
+  });
+
+  it('should write nothing when the work fails', async () => {
+    const failing = withTransaction([RECORDS_STORE, STATS_STORE], 'readwrite', async transaction => {
+      await records.within(transaction).put({ puzzleId: 1, stars: 5, date: '2026-01-17' });
+      throw new Error('failed halfway');
+    });
+
+    await expect(failing).rejects.toThrow('failed halfway');
+    expect(await records.getAll()).toEqual([]);
+  });
+});
+
+describe('getStorageKind', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setBackend(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    setBackend(null);
+  });
+
+  const breakIndexedDB = () => {
+    vi.spyOn(globalThis.indexedDB, 'open').mockImplementation(() => {
+      throw new DOMException('A mutation operation was attempted on a database that did not allow mutations.', 'InvalidStateError');
+    });
+  };
+
+  it('should use IndexedDB when it opens', async () => {
+    expect(await getStorageKind()).toBe('indexeddb');
+  });
+
+  it('should fall back to localStorage when IndexedDB fails', async () => {
+    breakIndexedDB();
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+      removeItem: (key: string) => items.delete(key),
+    });
+
+    expect(await getStorageKind()).toBe('localstorage');
+    await records.put({ puzzleId: 1, stars: 5, date: '2026-01-17' });
+    expect(items.has('mkwaffle.db.gameRecords')).toBe(true);
+  });
+
+  it('should fall back to memory when localStorage fails too', async () => {
+    breakIndexedDB();
+    vi.stubGlobal('localStorage', {
+      setItem: () => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      },
+    });
+
+    expect(await getStorageKind()).toBe('memory');
+    await records.put({ puzzleId: 1, stars: 5, date: '2026-01-17' });
+    expect(await records.get(1)).not.toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Entry point to the game's storage: picks a backend on first use - IndexedDB
+ * through one shared connection, falling back to localStorage or memory (see
+ * storageBackend.ts) - and offers typed repositories over its stores.
+ */
+
+import { openDatabase } from './migrations';
+import {
+  StorageBackend,
+  StorageKind,
+  StoreTransaction,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  isLocalStorageUsable,
+} from './storageBackend';
+
+const DB_NAME = 'mkwaffle-stats';
+
+// ============ INDEXEDDB ============
+
+let connection: Promise<IDBDatabase> | null = null;
+
+// The shared connection, opened (and migrated) on first use
+export function getDB(): Promise<IDBDatabase> {
+  if (!connection) {
+    connection = openDatabase(DB_NAME).then(
+      db => {
+        // Another tab is upgrading the schema: step aside and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          connection = null;
+        };
+        // Closed by the browser, e.g. when site data is cleared
+        db.onclose = () => {
+          connection = null;
+        };
+        return db;
+      },
+      error => {
+        // Let the next call try again
+        connection = null;
+        console.error('Failed to open IndexedDB:', error);
+        throw error;
+      }
+    );
+  }
+  return connection;
+}
+
+// Close the shared connection; the next call to getDB() opens a new one
+export async function closeDB(): Promise<void> {
+  const current = connection;
+  connection = null;
+  const db = await current?.catch(() => null);
+  db?.close();
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Operations of one IndexedDB transaction
+const wrapTransaction = (transaction: IDBTransaction): StoreTransaction => ({
+  get: (storeName, key) => requestToPromise(transaction.objectStore(storeName).get(key)),
+  getAll: (storeName) => requestToPromise(transaction.objectStore(storeName).getAll()),
+  getAllByIndex: (storeName, indexName, lower, upper) =>
+    requestToPromise(transaction.objectStore(storeName).index(indexName).getAll(IDBKeyRange.bound(lower, upper))),
+  put: async (storeName, value, key) => {
+    const store = transaction.objectStore(storeName);
+    await requestToPromise(key === undefined ? store.put(value) : store.put(value, key));
+  },
+  delete: (storeName, key) => requestToPromise(transaction.objectStore(storeName).delete(key)),
+});
+
+/**
+ * IndexedDB through the shared connection. Inside `work`, only await
+ * operations of its transaction - awaiting anything else lets the
+ * transaction commit early.
+ */
+export const createIndexedDBBackend = (): StorageBackend => ({
+  kind: 'indexeddb',
+  transaction: async (storeNames, mode, work) => {
+    const db = await getDB();
+    const transaction = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+    // Rejections are reported through `work` when it fails first
+    done.catch(() => undefined);
+
+    let result;
+    try {
+      result = await work(wrapTransaction(transaction));
+    } catch (error) {
+      try {
+        transaction.abort();
+      } catch {
+        // Already finished or aborted
+      }
+      throw error;
+    }
+    await done;
+    return result;
+  },
+});
+
+// ============ BACKEND SELECTION ============
+
+let backend: Promise<StorageBackend> | null = null;
+
+async function detectBackend(): Promise<StorageBackend> {
+  try {
+    await getDB();
+    return createIndexedDBBackend();
+  } catch {
+    // Already logged by getDB
+  }
+  if (isLocalStorageUsable()) {
+    console.warn('IndexedDB is unavailable - storing progress in localStorage');
+    return createLocalStorageBackend();
+  }
+  console.warn('IndexedDB and localStorage are unavailable - progress will be lost on reload');
+  return createMemoryBackend();
+}
+
+// The backend in use, picked on first use
+export function getBackend(): Promise<StorageBackend> {
+  if (!backend) {
+    backend = detectBackend();
+  }
+  return backend;
+}
+
+// Which kind of storage holds the player's progress
+export async function getStorageKind(): Promise<StorageKind> {
+  return (await getBackend()).kind;
+}
+
+// Use `next` from now on (tests), or pick again on next use when null
+export function setBackend(next: StorageBackend | null): void {
+  backend = next && Promise.resolve(next);
+}
+
+// Run `work` in one transaction of the current backend; see StorageBackend.transaction
+export async function withTransaction<R>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: StoreTransaction) => Promise<R>
+): Promise<R> {
+  return (await getBackend()).transaction(storeNames, mode, work);
+}
+
+// ============ REPOSITORIES ============
+
+export interface Repository<T, K extends IDBValidKey> {
+  readonly storeName: string;
+  get(key: K): Promise<T | null>;
+  getAll(): Promise<T[]>;
+  // Entries whose index value lies between `lower` and `upper`, inclusive
+  getAllByIndex(indexName: string, lower: IDBValidKey, upper: IDBValidKey): Promise<T[]>;
+  // `key` only for stores without a keyPath
+  put(value: T, key?: K): Promise<void>;
+  delete(key: K): Promise<void>;
+  // The same operations as part of a transaction opened by withTransaction
+  within(transaction: StoreTransaction): Repository<T, K>;
+}
+
+type RunOperation = <R>(mode: IDBTransactionMode, operation: (transaction: StoreTransaction) => Promise<R>) => Promise<R>;
+
+const bindRepository = <T, K extends IDBValidKey>(storeName: string, run: RunOperation): Repository<T, K> => ({
+  storeName,
+  get: async key => (await run('readonly', t => t.get<T>(storeName, key))) ?? null,
+  getAll: () => run('readonly', t => t.getAll<T>(storeName)),
+  getAllByIndex: (indexName, lower, upper) => run('readonly', t => t.getAllByIndex<T>(storeName, indexName, lower, upper)),
+  put: (value, key) => run('readwrite', t => t.put(storeName, value, key)),
+  delete: key => run('readwrite', t => t.delete(storeName, key)),
+  within: transaction => bindRepository<T, K>(storeName, (_mode, operation) => operation(transaction)),
+});
+
+// Repository over one store; each call runs in its own transaction unless bound with `within`
+export const createRepository = <T, K extends IDBValidKey>(storeName: string): Repository<T, K> =>
+  bindRepository<T, K>(storeName, (mode, operation) => withTransaction([storeName], mode, operation));
@@ -1,7 +1,15 @@
 import { describe, it, expect } from 'vitest';
-import { isValidCell, generateInitialState, updateColors, checkWin } from './gameLogic';
+import { isValidCell, moveCursor, generateInitialState, updateColors, checkWin, swapCells, getReplayFrames, getOptimalPath, selectTile } from './gameLogic';
+import { solve } from './solver';
 import { CellStatus, Grid } from '../types';
-import { GRID_SIZE } from '../constants';
+import { GRID_SIZE, OPTIMAL_SWAPS } from '../constants';
+
+const TEST_SEED = 42;
+
+const VALID_CELLS = Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) => ({
+  row: Math.floor(i / GRID_SIZE),
+  col: i % GRID_SIZE,
+})).filter(({ row, col }) => isValidCell(row, col));
 
 describe('isValidCell', () => {
   it('should return true for cells in horizontal word rows (0, 2, 4)', () => {
@@ -43,6 +51,72 @@ describe('isValidCell', () => {
   });
 });
 
+describe('moveCursor', () => {
+  it('should move to the neighbouring cell', () => {
+    expect(moveCursor({ row: 0, col: 0 }, 'right')).toEqual({ row: 0, col: 1 });
+    expect(moveCursor({ row: 0, col: 0 }, 'down')).toEqual({ row: 1, col: 0 });
+    expect(moveCursor({ row: 2, col: 2 }, 'left')).toEqual({ row: 2, col: 1 });
+    expect(moveCursor({ row: 2, col: 2 }, 'up')).toEqual({ row: 1, col: 2 });
+  });
+
+  it('should jump over gaps', () => {
+    expect(moveCursor({ row: 1, col: 0 }, 'right')).toEqual({ row: 1, col: 2 });
+    expect(moveCursor({ row: 3, col: 4 }, 'left')).toEqual({ row: 3, col: 2 });
+    expect(moveCursor({ row: 0, col: 1 }, 'down')).toEqual({ row: 2, col: 1 });
+    expect(moveCursor({ row: 4, col: 3 }, 'up')).toEqual({ row: 2, col: 3 });
+  });
+
+  it('should stay put at the edge of the board', () => {
+    expect(moveCursor({ row: 0, col: 0 }, 'up')).toEqual({ row: 0, col: 0 });
+    expect(moveCursor({ row: 0, col: 0 }, 'left')).toEqual({ row: 0, col: 0 });
+    expect(moveCursor({ row: 4, col: 4 }, 'down')).toEqual({ row: 4, col: 4 });
+    expect(moveCursor({ row: 1, col: 4 }, 'right')).toEqual({ row: 1, col: 4 });
+  });
+
+  it('should only ever land on valid cells', () => {
+    const directions = ['up', 'down', 'left', 'right'] as const;
+    for (let r = 0; r < GRID_SIZE; r++) {
+      for (let c = 0; c < GRID_SIZE; c++) {
+        if (!isValidCell(r, c)) continue;
+        for (const direction of directions) {
+          const next = moveCursor({ row: r, col: c }, direction);
+          expect(isValidCell(next.row, next.col)).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+describe('selectTile', () => {
+  const solution: string[][] = [
+    ['П', 'Л', 'А', 'Ж', 'А'],
+    ['Е', ' ', 'Н', ' ', 'К'],
+    ['В', 'Е', 'Т', 'Е', 'Р'],
+    ['А', ' ', 'И', ' ', 'Е'],
+    ['Ч', 'Е', 'К', 'О', 'Р']
+  ];
+  const grid = generateInitialState(solution, TEST_SEED);
+  const green = VALID_CELLS.find(({ row, col }) => grid[row][col].status === CellStatus.CORRECT)!;
+  const [first, second] = VALID_CELLS.filter(({ row, col }) => grid[row][col].status !== CellStatus.CORRECT);
+
+  it('should pick a tile up when none is selected', () => {
+    expect(selectTile(grid, null, first)).toEqual({ selected: first, swap: null });
+  });
+
+  it('should put the selected tile back down when tapped again', () => {
+    expect(selectTile(grid, first, { ...first })).toEqual({ selected: null, swap: null });
+  });
+
+  it('should swap the selected tile with the next one tapped', () => {
+    expect(selectTile(grid, first, second)).toEqual({ selected: null, swap: { from: first, to: second } });
+  });
+
+  it('should ignore green tiles', () => {
+    expect(selectTile(grid, null, green)).toBeNull();
+    expect(selectTile(grid, first, green)).toBeNull();
+  });
+});
+
 describe('generateInitialState', () => {
   const testSolution: string[][] = [
     ['П', 'Л', 'А', 'Ж', 'А'],
@@ -53,7 +127,7 @@ describe('generateInitialState', () => {
   ];
 
   it('should return a 5x5 grid', () => {
-    const grid = generateInitialState(testSolution);
+    const grid = generateInitialState(testSolution, TEST_SEED);
     expect(grid.length).toBe(5);
     grid.forEach(row => {
       expect(row.length).toBe(5);
@@ -61,7 +135,7 @@ describe('generateInitialState', () => {
   });
 
   it('should mark gap cells with NONE status', () => {
-    const grid = generateInitialState(testSolution);
+    const grid = generateInitialState(testSolution, TEST_SEED);
 
     // Gap positions should have NONE status
     expect(grid[1][1].status).toBe(CellStatus.NONE);
@@ -71,7 +145,7 @@ describe('generateInitialState', () => {
   });
 
   it('should contain all characters from the solution', () => {
-    const grid = generateInitialState(testSolution);
+    const grid = generateInitialState(testSolution, TEST_SEED);
 
     // Extract all valid chars from solution
     const solutionChars: string[] = [];
@@ -97,9 +171,9 @@ describe('generateInitialState', () => {
     expect(gridChars.sort()).toEqual(solutionChars.sort());
   });
 
-  it('should produce deterministic results for the same day', () => {
-    const grid1 = generateInitialState(testSolution);
-    const grid2 = generateInitialState(testSolution);
+  it('should produce deterministic results for the same seed', () => {
+    const grid1 = generateInitialState(testSolution, TEST_SEED);
+    const grid2 = generateInitialState(testSolution, TEST_SEED);
 
     // Same seed = same shuffle
     for (let r = 0; r < GRID_SIZE; r++) {
@@ -110,6 +184,190 @@ describe('generateInitialState', () => {
   });
 });
 
+describe('generateInitialState - optimal swap guarantee', () => {
+  const solutions: Record<string, string[][]> = {
+    'distinct letters': [
+      ['А', 'Б', 'В', 'Г', 'Д'],
+      ['Е', ' ', 'Ж', ' ', 'З'],
+      ['И', 'Ј', 'К', 'Л', 'М'],
+      ['Н', ' ', 'О', ' ', 'П'],
+      ['Р', 'С', 'Т', 'У', 'Ф']
+    ],
+    'duplicate letters': [
+      ['П', 'Л', 'А', 'Ж', 'А'],
+      ['Е', ' ', 'Н', ' ', 'К'],
+      ['В', 'Е', 'Т', 'Е', 'Р'],
+      ['А', ' ', 'И', ' ', 'Е'],
+      ['Ч', 'Е', 'К', 'О', 'Р']
+    ]
+  };
+  const seeds = Array.from({ length: 60 }, (_, i) => i + 1);
+
+  const countGreens = (grid: Grid): number => {
+    let greens = 0;
+    for (let r = 0; r < GRID_SIZE; r++) {
+      for (let c = 0; c < GRID_SIZE; c++) {
+        if (grid[r][c].status === CellStatus.CORRECT) greens++;
+      }
+    }
+    return greens;
+  };
+
+  for (const [name, solution] of Object.entries(solutions)) {
+    it(`should need exactly OPTIMAL_SWAPS swaps for every seed (${name})`, () => {
+      for (const seed of seeds) {
+        const grid = generateInitialState(solution, seed);
+        expect(solve(grid, solution)?.swaps).toBe(OPTIMAL_SWAPS);
+      }
+    });
+
+    it(`should start with 6-8 green tiles for every seed (${name})`, () => {
+      for (const seed of seeds) {
+        const greens = countGreens(generateInitialState(solution, seed));
+        expect(greens).toBeGreaterThanOrEqual(6);
+        expect(greens).toBeLessThanOrEqual(8);
+      }
+    });
+  }
+
+  it('should produce the same grid for the same seed', () => {
+    const solution = solutions['duplicate letters'];
+    expect(generateInitialState(solution, 42)).toEqual(generateInitialState(solution, 42));
+  });
+
+  it('should produce different grids for different seeds', () => {
+    const solution = solutions['duplicate letters'];
+    expect(generateInitialState(solution, 42)).not.toEqual(generateInitialState(solution, 43));
+  });
+});
+
+describe('swapCells', () => {
+  const testSolution: string[][] = [
+    ['А', 'Б', 'В', 'Г', 'Д'],
+    ['Е', ' ', 'Ж', ' ', 'З'],
+    ['И', 'Ј', 'К', 'Л', 'М'],
+    ['Н', ' ', 'О', ' ', 'П'],
+    ['Р', 'С', 'Т', 'У', 'Ф']
+  ];
+
+  it('should swap the letters of two cells and recolor them', () => {
+    const grid = generateInitialState(testSolution, TEST_SEED);
+    const from = { row: 0, col: 0 };
+    const to = { row: 4, col: 4 };
+
+    const swapped = swapCells(grid, from, to, testSolution);
+
+    expect(swapped[0][0].char).toBe(grid[4][4].char);
+    expect(swapped[4][4].char).toBe(grid[0][0].char);
+    expect(swapped).toEqual(updateColors(swapped, testSolution));
+  });
+
+  it('should not modify the original grid', () => {
+    const grid = generateInitialState(testSolution, TEST_SEED);
+    const before = grid.map(r => r.map(c => ({ ...c })));
+
+    swapCells(grid, { row: 0, col: 0 }, { row: 4, col: 4 }, testSolution);
+
+    expect(grid).toEqual(before);
+  });
+
+  it('should restore the grid when the same swap is undone', () => {
+    const grid = generateInitialState(testSolution, TEST_SEED);
+    const from = { row: 0, col: 2 };
+    const to = { row: 2, col: 4 };
+
+    const swapped = swapCells(grid, from, to, testSolution);
+    const undone = swapCells(swapped, to, from, testSolution);
+
+    expect(undone).toEqual(grid);
+  });
+});
+
+describe('getReplayFrames', () => {
+  const testSolution: string[][] = [
+    ['П', 'Л', 'А', 'Ж', 'А'],
+    ['Е', ' ', 'Н', ' ', 'К'],
+    ['В', 'Е', 'Т', 'Е', 'Р'],
+    ['А', ' ', 'И', ' ', 'Е'],
+    ['Ч', 'Е', 'К', 'О', 'Р']
+  ];
+
+  const moves = [
+    { from: { row: 0, col: 0 }, to: { row: 2, col: 2 } },
+    { from: { row: 4, col: 1 }, to: { row: 1, col: 4 } },
+    // Undo of the previous move, logged as the reverse swap
+    { from: { row: 1, col: 4 }, to: { row: 4, col: 1 } },
+    { from: { row: 3, col: 0 }, to: { row: 0, col: 4 } }
+  ];
+
+  it('should return one frame per move plus the starting grid', () => {
+    const start = generateInitialState(testSolution, TEST_SEED);
+    const final = moves.reduce((g, m) => swapCells(g, m.from, m.to, testSolution), start);
+
+    expect(getReplayFrames(final, moves, testSolution).length).toBe(moves.length + 1);
+  });
+
+  it('should rebuild the starting grid and every intermediate grid', () => {
+    const start = generateInitialState(testSolution, TEST_SEED);
+    const expected = [start];
+    for (const m of moves) {
+      expected.push(swapCells(expected[expected.length - 1], m.from, m.to, testSolution));
+    }
+
+    const frames = getReplayFrames(expected[expected.length - 1], moves, testSolution);
+
+    expect(frames).toEqual(expected);
+  });
+
+  it('should return just the final grid when there are no moves', () => {
+    const grid = generateInitialState(testSolution, TEST_SEED);
+    expect(getReplayFrames(grid, [], testSolution)).toEqual([grid]);
+  });
+});
+
+describe('getOptimalPath', () => {
+  const testSolution: string[][] = [
+    ['П', 'Л', 'А', 'Ж', 'А'],
+    ['Е', ' ', 'Н', ' ', 'К'],
+    ['В', 'Е', 'Т', 'Е', 'Р'],
+    ['А', ' ', 'И', ' ', 'Е'],
+    ['Ч', 'Е', 'К', 'О', 'Р']
+  ];
+  const moves = [
+    { from: { row: 0, col: 0 }, to: { row: 2, col: 2 } },
+    { from: { row: 4, col: 1 }, to: { row: 1, col: 4 } }
+  ];
+
+  it('should solve the puzzle from the grid the player started with', () => {
+    const start = generateInitialState(testSolution, TEST_SEED);
+    const final = moves.reduce((g, m) => swapCells(g, m.from, m.to, testSolution), start);
+
+    const path = getOptimalPath(final, moves, testSolution, start);
+
+    expect(path?.swaps).toBe(OPTIMAL_SWAPS);
+    expect(path?.frames[0]).toEqual(start);
+  });
+
+  it('should end every path on the solved grid, one frame per move', () => {
+    const start = generateInitialState(testSolution, TEST_SEED);
+    const path = getOptimalPath(start, [], testSolution, start)!;
+
+    expect(path.moves).toHaveLength(path.swaps);
+    expect(path.frames).toHaveLength(path.swaps + 1);
+    expect(checkWin(path.frames[path.frames.length - 1])).toBe(true);
+    path.moves.forEach((m, i) => {
+      expect(path.frames[i + 1]).toEqual(swapCells(path.frames[i], m.from, m.to, testSolution));
+    });
+  });
+
+  it('should start from the puzzle\'s grid when the game has no move log', () => {
+    const start = generateInitialState(testSolution, TEST_SEED);
+    const final = moves.reduce((g, m) => swapCells(g, m.from, m.to, testSolution), start);
+
+    expect(getOptimalPath(final, [], testSolution, start)?.frames[0]).toEqual(start);
+  });
+});
+
 describe('updateColors', () => {
   const testSolution: string[][] = [
     ['А', 'Б', 'В', 'Г', 'Д'],
@@ -518,7 +776,7 @@ describe('Green Letter Algorithm (New)', () => {
     it('should always produce 6-8 green letters', () => {
       // Test with multiple iterations to catch any randomness issues
       for (let i = 0; i < 50; i++) {
-        const grid = generateInitialState(testSolution);
+        const grid = generateInitialState(testSolution, i + 1);
         const greens = countGreens(grid, testSolution);
 
         expect(greens).toBeGreaterThanOrEqual(6);
@@ -528,7 +786,7 @@ describe('Green Letter Algorithm (New)', () => {
 
     it('should never start with a fully solved puzzle', () => {
       for (let i = 0; i < 50; i++) {
-        const grid = generateInitialState(testSolution);
+        const grid = generateInitialState(testSolution, i + 1);
         const greens = countGreens(grid, testSolution);
 
         // There are 21 valid cells, should never all be green
@@ -538,7 +796,7 @@ describe('Green Letter Algorithm (New)', () => {
 
     it('should have at least some non-green letters', () => {
       for (let i = 0; i < 50; i++) {
-        const grid = generateInitialState(testSolution);
+        const grid = generateInitialState(testSolution, i + 1);
         const greens = countGreens(grid, testSolution);
 
         // With max 8 greens, we should have at least 13 non-greens (21 - 8)
@@ -549,7 +807,7 @@ describe('Green Letter Algorithm (New)', () => {
 
   describe('Letter conservation', () => {
     it('should preserve all letters from the solution', () => {
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
 
       // Extract all valid chars from solution
       const solutionChars: string[] = [];
@@ -576,7 +834,7 @@ describe('Green Letter Algorithm (New)', () => {
     });
 
     it('should not add or remove any characters', () => {
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
 
       // Count each character in solution
       const solutionCounts: Record<string, number> = {};
@@ -609,7 +867,7 @@ describe('Green Letter Algorithm (New)', () => {
     it('should not create accidental greens beyond the intended count', () => {
       // Generate multiple grids and verify the algorithm maintains control
       for (let i = 0; i < 20; i++) {
-        const grid = generateInitialState(testSolution);
+        const grid = generateInitialState(testSolution, i + 1);
         const greens = countGreens(grid, testSolution);
 
         // The algorithm should produce exactly the intended number of greens
@@ -620,7 +878,7 @@ describe('Green Letter Algorithm (New)', () => {
 
     it('should successfully create valid permutations', () => {
       // Verify the grid is a valid permutation (not partially filled)
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
 
       for (let r = 0; r < GRID_SIZE; r++) {
         for (let c = 0; c < GRID_SIZE; c++) {
@@ -636,10 +894,10 @@ describe('Green Letter Algorithm (New)', () => {
 
   describe('Deterministic behavior', () => {
     it('should produce consistent results for the same seed', () => {
-      const grid1 = generateInitialState(testSolution);
-      const grid2 = generateInitialState(testSolution);
+      const grid1 = generateInitialState(testSolution, TEST_SEED);
+      const grid2 = generateInitialState(testSolution, TEST_SEED);
 
-      // Same seed (same day) should produce identical grids
+      // Same seed should produce identical grids
       for (let r = 0; r < GRID_SIZE; r++) {
         for (let c = 0; c < GRID_SIZE; c++) {
           expect(grid1[r][c].char).toBe(grid2[r][c].char);
@@ -649,8 +907,8 @@ describe('Green Letter Algorithm (New)', () => {
     });
 
     it('should have same green count for same seed', () => {
-      const grid1 = generateInitialState(testSolution);
-      const grid2 = generateInitialState(testSolution);
+      const grid1 = generateInitialState(testSolution, TEST_SEED);
+      const grid2 = generateInitialState(testSolution, TEST_SEED);
 
       const greens1 = countGreens(grid1, testSolution);
       const greens2 = countGreens(grid2, testSolution);
@@ -662,12 +920,12 @@ describe('Green Letter Algorithm (New)', () => {
   describe('Distribution properties', () => {
     it('should be deterministic (same seed produces same green count)', () => {
       const samples = 100;
-      const firstGrid = generateInitialState(testSolution);
+      const firstGrid = generateInitialState(testSolution, TEST_SEED);
       const firstGreens = countGreens(firstGrid, testSolution);
 
       // All iterations with same seed should produce same result
       for (let i = 0; i < samples; i++) {
-        const grid = generateInitialState(testSolution);
+        const grid = generateInitialState(testSolution, TEST_SEED);
         const greens = countGreens(grid, testSolution);
 
         expect(greens).toBe(firstGreens);
@@ -677,7 +935,7 @@ describe('Green Letter Algorithm (New)', () => {
     });
 
     it('should produce green count within expected range', () => {
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
       const greens = countGreens(grid, testSolution);
 
       // The algorithm guarantees 6-8 greens
@@ -688,7 +946,7 @@ describe('Green Letter Algorithm (New)', () => {
 
   describe('Color coding integration', () => {
     it('should properly color-code the generated grid', () => {
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
 
       // Count different status types
       let correctCount = 0;
@@ -718,7 +976,7 @@ describe('Green Letter Algorithm (New)', () => {
     });
 
     it('should mark green letters as CORRECT status', () => {
-      const grid = generateInitialState(testSolution);
+      const grid = generateInitialState(testSolution, TEST_SEED);
 
       // All letters matching their solution position should be CORRECT
       for (let r = 0; r < GRID_SIZE; r++) {
@@ -1,6 +1,10 @@
-import { CellStatus, Coords, Grid } from '../types';
-import { seededShuffle, getDailySeed } from './daily';
-import { GRID_SIZE } from '../constants';
+import { CellStatus, Coords, Direction, Grid, Swap } from '../types';
+import { mulberry32, seededShuffle } from './random';
+import { solve } from './solver';
+import { GRID_SIZE, OPTIMAL_SWAPS } from '../constants';
+
+const MAX_GREEN_LAYOUTS = 20;
+const MAX_SCRAMBLE_ATTEMPTS = 50;
 
 // Valid coordinates for the waffle shape
 const VALID_COORDS: Coords[] = [];
@@ -18,124 +22,89 @@ export const isValidCell = (r: number, c: number) => {
   return (r % 2 === 0) || (c % 2 === 0);
 };
 
+const DIRECTION_STEPS: Record<Direction, Coords> = {
+  up: { row: -1, col: 0 },
+  down: { row: 1, col: 0 },
+  left: { row: 0, col: -1 },
+  right: { row: 0, col: 1 },
+};
+
+// Next valid cell in a direction, jumping over the waffle's gaps; stays put at the edge
+export const moveCursor = (cursor: Coords, direction: Direction): Coords => {
+  const step = DIRECTION_STEPS[direction];
+  let row = cursor.row + step.row;
+  let col = cursor.col + step.col;
+  while (row >= 0 && row < GRID_SIZE && col >= 0 && col < GRID_SIZE) {
+    if (isValidCell(row, col)) return { row, col };
+    row += step.row;
+    col += step.col;
+  }
+  return cursor;
+};
+
+export interface TileSelection {
+  selected: Coords | null; // Tile left picked up
+  swap: Swap | null;       // Swap to make, if the tap completed one
+}
+
+/**
+ * Tap (or Enter) on a tile in tap mode: pick it up, put it back down, or swap it
+ * with the tile already picked up. Null for taps on green tiles, which are ignored.
+ */
+export const selectTile = (grid: Grid, selected: Coords | null, coords: Coords): TileSelection | null => {
+  if (grid[coords.row][coords.col].status === CellStatus.CORRECT) return null;
+  if (!selected) return { selected: coords, swap: null };
+  if (selected.row === coords.row && selected.col === coords.col) return { selected: null, swap: null };
+  return { selected: null, swap: { from: selected, to: coords } };
+};
+
 /**
- * Generate a derangement: shuffle letters so NONE end up in original positions
- * Uses rejection sampling with fallback to guarantee termination
+ * Scramble letters by rotating them within `numCycles` random cycles.
+ * A cycle of k cells takes k - 1 swaps to undo, so the result needs
+ * (letters - numCycles) swaps - or fewer, if duplicate letters allow a shortcut.
+ * Returns null if a letter lands on a cell that needs that same letter.
  */
-const generateDerangement = (
+const generateCycleScramble = (
   letters: string[],
-  originalPositions: string[],
-  seed: number,
-  maxAttempts: number = 100
-): string[] => {
-  // If only 1 letter, derangement is impossible - return as is
-  if (letters.length === 1) {
-    return letters;
+  numCycles: number,
+  rng: () => number
+): string[] | null => {
+  const order = letters.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
   }
 
-  // Try rejection sampling first
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const shuffled = seededShuffle(letters, seed + attempt + 100);
-
-    // Check if it's a valid derangement (no letter in original position)
-    let isDerangement = true;
-    for (let i = 0; i < shuffled.length; i++) {
-      if (shuffled[i] === originalPositions[i]) {
-        isDerangement = false;
-        break;
-      }
-    }
+  // Every cycle needs at least 2 cells; hand out the rest at random
+  const sizes: number[] = Array(numCycles).fill(2);
+  for (let extra = letters.length - numCycles * 2; extra > 0; extra--) {
+    sizes[Math.floor(rng() * numCycles)]++;
+  }
 
-    if (isDerangement) {
-      return shuffled;
+  const result: string[] = Array(letters.length);
+  let offset = 0;
+  for (const size of sizes) {
+    for (let k = 0; k < size; k++) {
+      const cell = order[offset + k];
+      const next = order[offset + ((k + 1) % size)];
+      result[cell] = letters[next];
     }
+    offset += size;
   }
 
-  // Fallback: forced derangement using swaps
-  // Start with a shuffle and fix any collisions
-  const result = seededShuffle(letters, seed + 999);
-
-  for (let i = 0; i < result.length; i++) {
-    if (result[i] === originalPositions[i]) {
-      // Find a position to swap with (that won't create a new collision)
-      for (let j = i + 1; j < result.length; j++) {
-        if (
-          result[j] !== originalPositions[j] &&
-          result[i] !== originalPositions[j] &&
-          result[j] !== originalPositions[i]
-        ) {
-          // Safe swap
-          [result[i], result[j]] = [result[j], result[i]];
-          break;
-        }
-      }
-      // If no safe swap found, try with any position that doesn't match
-      if (result[i] === originalPositions[i]) {
-        for (let j = i + 1; j < result.length; j++) {
-          if (result[j] !== originalPositions[i]) {
-            [result[i], result[j]] = [result[j], result[i]];
-            break;
-          }
-        }
-      }
-    }
+  // Derangement check: no letter may accidentally end up green
+  for (let i = 0; i < letters.length; i++) {
+    if (result[i] === letters[i]) return null;
   }
 
   return result;
 };
 
-export const generateInitialState = (solution: string[][]): Grid => {
-  const seed = getDailySeed();
-
-  // Pseudo-random number generator for this seed
-  const mulberry32 = (a: number) => {
-    return function () {
-      let t = (a += 0x6d2b79f5);
-      t = Math.imul(t ^ (t >>> 15), t | 1);
-      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-    };
-  };
-
-  const rng = mulberry32(seed);
-
-  // Step 1: Decide how many positions to keep green (6-8)
-  // Weighted distribution: 6: 25%, 7: 50%, 8: 25%
-  const rand = rng();
-  let numGreens: number;
-  if (rand < 0.25) numGreens = 6;
-  else if (rand < 0.75) numGreens = 7;
-  else numGreens = 8;
-
-  // Step 2: Select which positions to keep green
-  // Shuffle coordinates to randomly select positions
-  const shuffledCoords = seededShuffle([...VALID_COORDS], seed + 1);
-  const greenPositions = new Set<string>();
-  for (let i = 0; i < numGreens; i++) {
-    const coord = shuffledCoords[i];
-    greenPositions.add(`${coord.row},${coord.col}`);
-  }
-
-  // Step 3: Separate green and non-green positions
-  const nonGreenLetters: string[] = [];
-  const nonGreenOriginalLetters: string[] = [];
-
-  VALID_COORDS.forEach(({ row, col }) => {
-    if (!greenPositions.has(`${row},${col}`)) {
-      nonGreenLetters.push(solution[row][col]);
-      nonGreenOriginalLetters.push(solution[row][col]);
-    }
-  });
-
-  // Step 4: Generate a DERANGEMENT of non-green letters
-  // This ensures NO letter ends up in its original position (prevents accidental greens)
-  const derangedLetters = generateDerangement(
-    nonGreenLetters,
-    nonGreenOriginalLetters,
-    seed + 2
-  );
-
-  // Step 5: Build the grid
+const buildScrambledGrid = (
+  solution: string[][],
+  greenPositions: Set<string>,
+  scrambledLetters: string[]
+): Grid => {
   const grid: Grid = Array(GRID_SIZE)
     .fill(null)
     .map(() => Array(GRID_SIZE).fill(null));
@@ -151,9 +120,9 @@ export const generateInitialState = (solution: string[][]): Grid => {
             status: CellStatus.WRONG, // Will be updated by updateColors
           };
         } else {
-          // Use deranged letter (guaranteed NOT in correct position)
+          // Use scrambled letter (guaranteed NOT in correct position)
           grid[r][c] = {
-            char: derangedLetters[nonGreenIndex],
+            char: scrambledLetters[nonGreenIndex],
             status: CellStatus.WRONG,
           };
           nonGreenIndex++;
@@ -170,6 +139,132 @@ export const generateInitialState = (solution: string[][]): Grid => {
   return updateColors(grid, solution);
 };
 
+export const generateInitialState = (solution: string[][], seed: number): Grid => {
+  // Pseudo-random number generator for this seed
+  const rng = mulberry32(seed);
+
+  // Step 1: Decide how many positions to keep green (6-8)
+  // Weighted distribution: 6: 25%, 7: 50%, 8: 25%
+  const rand = rng();
+  let numGreens: number;
+  if (rand < 0.25) numGreens = 6;
+  else if (rand < 0.75) numGreens = 7;
+  else numGreens = 8;
+
+  // Keep the closest candidate in case no attempt hits OPTIMAL_SWAPS exactly
+  const scrambleRng = mulberry32(seed + 2);
+  let bestGrid: Grid | null = null;
+  let bestDistance = Infinity;
+
+  for (let layout = 0; layout < MAX_GREEN_LAYOUTS; layout++) {
+    // Step 2: Select which positions to keep green
+    // Shuffle coordinates to randomly select positions
+    const shuffledCoords = seededShuffle([...VALID_COORDS], seed + 1 + layout * 1000);
+    const greenPositions = new Set<string>();
+    for (let i = 0; i < numGreens; i++) {
+      const coord = shuffledCoords[i];
+      greenPositions.add(`${coord.row},${coord.col}`);
+    }
+
+    // Step 3: Collect the letters of the non-green positions
+    const nonGreenLetters: string[] = [];
+
+    VALID_COORDS.forEach(({ row, col }) => {
+      if (!greenPositions.has(`${row},${col}`)) {
+        nonGreenLetters.push(solution[row][col]);
+      }
+    });
+
+    // Step 4: Scramble them into exactly enough cycles to need OPTIMAL_SWAPS swaps,
+    // then verify with the solver. Duplicate letters can make a grid easier than built,
+    // so later attempts also try fewer cycles to leave room for such shortcuts.
+    // Some layouts can never reach the target (e.g. a letter repeated in many
+    // non-green cells forces extra cycles) - then move on to another layout.
+    const maxCycles = Math.max(1, nonGreenLetters.length - OPTIMAL_SWAPS);
+
+    for (let attempt = 0; attempt < MAX_SCRAMBLE_ATTEMPTS; attempt++) {
+      const numCycles = Math.max(1, maxCycles - (attempt % maxCycles));
+      const scrambled = generateCycleScramble(nonGreenLetters, numCycles, scrambleRng);
+      if (!scrambled) continue;
+
+      const grid = buildScrambledGrid(solution, greenPositions, scrambled);
+      const result = solve(grid, solution);
+      if (!result) continue;
+
+      const distance = Math.abs(result.swaps - OPTIMAL_SWAPS);
+      if (distance === 0) return grid;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestGrid = grid;
+      }
+    }
+  }
+
+  if (bestGrid) return bestGrid;
+
+  // Last resort for degenerate solutions where no scramble avoids accidental greens
+  // (e.g. every letter is the same): start from the solved grid
+  return updateColors(solution.map((row, r) =>
+    row.map((char, c) => isValidCell(r, c)
+      ? { char, status: CellStatus.WRONG }
+      : { char: '', status: CellStatus.NONE })
+  ), solution);
+};
+
+// Swap the letters of two cells and recolor the grid
+export const swapCells = (grid: Grid, from: Coords, to: Coords, solution: string[][]): Grid => {
+  const newGrid = grid.map(r => r.map(c => ({ ...c })));
+
+  const tempChar = newGrid[from.row][from.col].char;
+  newGrid[from.row][from.col].char = newGrid[to.row][to.col].char;
+  newGrid[to.row][to.col].char = tempChar;
+
+  return updateColors(newGrid, solution);
+};
+
+/**
+ * Rebuild every position of a game from its final grid and move log.
+ * Frame 0 is the starting grid, frame i is the grid after the i-th move.
+ * Works backwards from the final grid, so it doesn't depend on how the
+ * starting grid was generated.
+ */
+export const getReplayFrames = (finalGrid: Grid, moves: Swap[], solution: string[][]): Grid[] => {
+  const frames: Grid[] = [finalGrid];
+  for (let i = moves.length - 1; i >= 0; i--) {
+    const { from, to } = moves[i];
+    frames.unshift(swapCells(frames[0], to, from, solution));
+  }
+  return frames;
+};
+
+export interface OptimalPath {
+  swaps: number;
+  moves: Swap[];
+  frames: Grid[]; // Starting grid, then the grid after each move
+}
+
+/**
+ * Shortest way to solve a finished game, from the grid the player started with.
+ * `puzzleStart` is used for games saved before the move log existed, which
+ * can't be rewound from their final grid.
+ */
+export const getOptimalPath = (
+  finalGrid: Grid,
+  moves: Swap[],
+  solution: string[][],
+  puzzleStart: Grid
+): OptimalPath | null => {
+  const startGrid = moves.length > 0 ? getReplayFrames(finalGrid, moves, solution)[0] : puzzleStart;
+  const result = solve(startGrid, solution);
+  if (!result) return null;
+
+  const frames = [startGrid];
+  for (const { from, to } of result.moves) {
+    frames.push(swapCells(frames[frames.length - 1], from, to, solution));
+  }
+  return { swaps: result.swaps, moves: result.moves, frames };
+};
+
 export const updateColors = (currentGrid: Grid, solution: string[][]): Grid => {
   const newGrid = currentGrid.map((row) => row.map((cell) => ({ ...cell })));
 
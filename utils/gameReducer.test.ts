@@ -0,0 +1,356 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GameState,
+  INITIAL_GAME_STATE,
+  canHint,
+  canSwap,
+  canUndo,
+  countSwapsMade,
+  createNewGame,
+  gameReducer,
+  toSavedState,
+} from './gameReducer';
+import { checkWin, isValidCell, updateColors } from './gameLogic';
+import { CellStatus, Coords, Grid } from '../types';
+import { TOTAL_SWAPS } from '../constants';
+
+const testSolution: string[][] = [
+  ['А', 'Б', 'В', 'Г', 'Д'],
+  ['Е', ' ', 'Ж', ' ', 'З'],
+  ['И', 'Ј', 'К', 'Л', 'М'],
+  ['Н', ' ', 'О', ' ', 'П'],
+  ['Р', 'С', 'Т', 'У', 'Ф']
+];
+
+// Build a colored grid from the solution with some cells swapped around
+const buildGrid = (swaps: [Coords, Coords][] = []): Grid => {
+  const grid: Grid = testSolution.map((row, r) =>
+    row.map((char, c) => ({
+      char: isValidCell(r, c) ? char : '',
+      status: isValidCell(r, c) ? CellStatus.WRONG : CellStatus.NONE
+    }))
+  );
+  for (const [a, b] of swaps) {
+    const temp = grid[a.row][a.col].char;
+    grid[a.row][a.col].char = grid[b.row][b.col].char;
+    grid[b.row][b.col].char = temp;
+  }
+  return updateColors(grid, testSolution);
+};
+
+const A = { row: 0, col: 0 };
+const B = { row: 0, col: 4 };
+const C = { row: 4, col: 0 };
+const D = { row: 4, col: 4 };
+
+// Two 2-cycles: A<->B and C<->D, two swaps from solved
+const playing = (overrides: Partial<GameState> = {}): GameState => ({
+  ...INITIAL_GAME_STATE,
+  puzzleId: 7,
+  grid: buildGrid([[A, B], [C, D]]),
+  ...overrides,
+});
+
+const swap = (state: GameState, from: Coords, to: Coords, timestamp = 1000) =>
+  gameReducer(state, { type: 'SWAP', from, to, solution: testSolution, timestamp });
+
+describe('createNewGame', () => {
+  it('should start with every swap and nothing played', () => {
+    const grid = buildGrid([[A, B]]);
+    expect(createNewGame(3, grid)).toEqual({
+      puzzleId: 3,
+      grid,
+      swaps: TOTAL_SWAPS,
+      status: 'PLAYING',
+      history: [],
+      moves: [],
+      hintsUsed: 0,
+      hint: null,
+    });
+  });
+
+  it('should count a solved starting grid as won', () => {
+    expect(createNewGame(3, buildGrid()).status).toBe('WON');
+  });
+});
+
+describe('gameReducer - LOAD and RESET', () => {
+  it('should load a saved game', () => {
+    const saved = { ...createNewGame(3, buildGrid([[A, B]])), swaps: 9, hintsUsed: 1 };
+    const state = gameReducer(INITIAL_GAME_STATE, { type: 'LOAD', state: saved });
+
+    expect(toSavedState(state)).toEqual(saved);
+  });
+
+  it('should keep the time the saved game was last played', () => {
+    const saved = { ...createNewGame(3, buildGrid([[A, B]])), updatedAt: 5000 };
+    const state = gameReducer(INITIAL_GAME_STATE, { type: 'LOAD', state: saved });
+
+    expect(state.updatedAt).toBe(5000);
+    expect(toSavedState(state)).toEqual(saved);
+  });
+
+  it('should fill in fields missing from older saved games', () => {
+    const state = gameReducer(playing(), {
+      type: 'LOAD',
+      state: { puzzleId: 4, grid: buildGrid([[A, B]]), swaps: 12, status: 'PLAYING' },
+    });
+
+    expect(state).toMatchObject({ puzzleId: 4, swaps: 12, history: [], moves: [], hintsUsed: 0, hint: null, updatedAt: null });
+  });
+
+  it('should clear the board on reset', () => {
+    expect(gameReducer(playing(), { type: 'RESET' })).toBe(INITIAL_GAME_STATE);
+  });
+
+  it('should have nothing to save before a game is loaded', () => {
+    expect(toSavedState(INITIAL_GAME_STATE)).toBeNull();
+  });
+});
+
+describe('gameReducer - SWAP', () => {
+  it('should swap two tiles, recolor them and spend a swap', () => {
+    const state = swap(playing(), A, B);
+
+    expect(state.grid![0][0]).toEqual({ char: 'А', status: CellStatus.CORRECT });
+    expect(state.grid![0][4]).toEqual({ char: 'Д', status: CellStatus.CORRECT });
+    expect(state.swaps).toBe(TOTAL_SWAPS - 1);
+    expect(state.status).toBe('PLAYING');
+  });
+
+  it('should log the swap for undo and replays', () => {
+    const state = swap(playing(), A, B, 1234);
+
+    expect(state.history).toEqual([{ from: A, to: B }]);
+    expect(state.moves).toEqual([{
+      from: A,
+      to: B,
+      fromStatus: CellStatus.CORRECT,
+      toStatus: CellStatus.CORRECT,
+      timestamp: 1234,
+    }]);
+  });
+
+  it('should date the game to the swap', () => {
+    expect(swap(playing(), A, B, 1234).updatedAt).toBe(1234);
+  });
+
+  it('should not change the state it was given', () => {
+    const before = playing();
+    const grid = before.grid!.map(row => row.map(cell => ({ ...cell })));
+    swap(before, A, B);
+
+    expect(before.grid).toEqual(grid);
+    expect(before.swaps).toBe(TOTAL_SWAPS);
+  });
+
+  it('should clear a pending hint', () => {
+    const state = swap(playing({ hint: { from: C, to: D } }), A, B);
+    expect(state.hint).toBeNull();
+  });
+
+  it('should win when the last tiles fall into place', () => {
+    const state = swap(swap(playing(), A, B), C, D);
+
+    expect(checkWin(state.grid!)).toBe(true);
+    expect(state.status).toBe('WON');
+    expect(state.swaps).toBe(TOTAL_SWAPS - 2);
+  });
+
+  it('should win on the last swap rather than lose', () => {
+    const state = swap(playing({ grid: buildGrid([[A, B]]), swaps: 1 }), A, B);
+    expect(state.status).toBe('WON');
+    expect(state.swaps).toBe(0);
+  });
+
+  it('should lose when the swaps run out', () => {
+    const state = swap(playing({ swaps: 1 }), A, B);
+    expect(state.status).toBe('LOST');
+    expect(state.swaps).toBe(0);
+  });
+
+  it('should refuse to move a tile that is in place', () => {
+    const before = playing();
+    expect(swap(before, { row: 0, col: 1 }, A)).toBe(before);
+    expect(swap(before, A, { row: 0, col: 1 })).toBe(before);
+  });
+
+  it('should refuse to swap a tile with itself', () => {
+    const before = playing();
+    expect(swap(before, A, A)).toBe(before);
+  });
+
+  it('should refuse gaps and cells off the board', () => {
+    const before = playing();
+    expect(swap(before, A, { row: 1, col: 1 })).toBe(before);
+    expect(swap(before, A, { row: 5, col: 0 })).toBe(before);
+    expect(swap(before, { row: -1, col: 0 }, A)).toBe(before);
+  });
+
+  it('should refuse swaps once the game is over', () => {
+    const won = playing({ status: 'WON' });
+    const lost = playing({ status: 'LOST', swaps: 0 });
+    expect(swap(won, A, B)).toBe(won);
+    expect(swap(lost, A, B)).toBe(lost);
+  });
+
+  it('should refuse swaps before a game is loaded', () => {
+    expect(swap(INITIAL_GAME_STATE, A, B)).toBe(INITIAL_GAME_STATE);
+  });
+
+  it('should agree with canSwap', () => {
+    expect(canSwap(playing(), A, B)).toBe(true);
+    expect(canSwap(playing(), A, { row: 0, col: 1 })).toBe(false);
+    expect(canSwap(playing({ status: 'LOST' }), A, B)).toBe(false);
+  });
+});
+
+describe('gameReducer - UNDO', () => {
+  const undo = (state: GameState, undoMode: 'refund' | 'penalty' | 'disabled', timestamp = 2000) =>
+    gameReducer(state, { type: 'UNDO', undoMode, solution: testSolution, timestamp });
+
+  it('should put the last swap back and refund it', () => {
+    const before = playing();
+    const state = undo(swap(before, A, B), 'refund');
+
+    expect(state.grid).toEqual(before.grid);
+    expect(state.swaps).toBe(TOTAL_SWAPS);
+    expect(state.history).toEqual([]);
+  });
+
+  it('should charge a swap for undoing under the penalty rule', () => {
+    const state = undo(swap(playing(), A, B), 'penalty');
+    expect(state.swaps).toBe(TOTAL_SWAPS - 2);
+  });
+
+  it('should log the undo as the reverse swap', () => {
+    const state = undo(swap(playing(), A, B, 1000), 'refund', 2000);
+
+    expect(state.moves).toHaveLength(2);
+    expect(state.moves[1]).toEqual({
+      from: B,
+      to: A,
+      fromStatus: CellStatus.PRESENT,
+      toStatus: CellStatus.PRESENT,
+      timestamp: 2000,
+      isUndo: true,
+    });
+  });
+
+  it('should date the game to the undo', () => {
+    expect(undo(swap(playing(), A, B, 1000), 'refund', 2000).updatedAt).toBe(2000);
+  });
+
+  it('should undo swaps one at a time, latest first', () => {
+    const twice = swap(swap(playing(), A, C), A, B);
+    const state = undo(twice, 'refund');
+
+    expect(state.history).toEqual([{ from: A, to: C }]);
+  });
+
+  it('should refuse when undo is disabled or there is nothing to undo', () => {
+    const fresh = playing();
+    const swapped = swap(fresh, A, B);
+    expect(undo(swapped, 'disabled')).toBe(swapped);
+    expect(undo(fresh, 'refund')).toBe(fresh);
+  });
+
+  it('should keep the last swap to play with under the penalty rule', () => {
+    const swapped = swap(playing({ swaps: 2 }), A, C);
+    expect(swapped.swaps).toBe(1);
+    expect(undo(swapped, 'penalty')).toBe(swapped);
+    expect(undo(swapped, 'refund').swaps).toBe(2);
+  });
+
+  it('should refuse once the game is over', () => {
+    const won = swap(swap(playing(), A, B), C, D);
+    expect(undo(won, 'refund')).toBe(won);
+  });
+
+  it('should agree with canUndo', () => {
+    const swapped = swap(playing(), A, B);
+    expect(canUndo(swapped, 'refund')).toBe(true);
+    expect(canUndo(swapped, 'penalty')).toBe(true);
+    expect(canUndo(swapped, 'disabled')).toBe(false);
+    expect(canUndo(playing(), 'refund')).toBe(false);
+  });
+});
+
+describe('gameReducer - HINT', () => {
+  const hint = (state: GameState, hintCost: number) =>
+    gameReducer(state, { type: 'HINT', hintCost, solution: testSolution, timestamp: 3000 });
+
+  it('should suggest a swap and charge for it', () => {
+    const state = hint(playing(), 2);
+
+    expect(state.hint).toEqual({ from: A, to: B });
+    expect(state.swaps).toBe(TOTAL_SWAPS - 2);
+    expect(state.hintsUsed).toBe(1);
+    expect(state.updatedAt).toBe(3000);
+  });
+
+  it('should leave the board alone', () => {
+    const before = playing();
+    expect(hint(before, 1).grid).toBe(before.grid);
+  });
+
+  it('should suggest a swap that places letters', () => {
+    const state = hint(playing(), 1);
+    const after = swap(state, state.hint!.from, state.hint!.to);
+
+    expect(after.grid![0][0].status).toBe(CellStatus.CORRECT);
+  });
+
+  it('should refuse a second hint before the first is used', () => {
+    const hinted = hint(playing(), 1);
+    expect(hint(hinted, 1)).toBe(hinted);
+  });
+
+  it('should allow another hint after a swap', () => {
+    const hinted = hint(playing(), 1);
+    const swapped = swap(hinted, hinted.hint!.from, hinted.hint!.to);
+    expect(hint(swapped, 1).hintsUsed).toBe(2);
+  });
+
+  it('should leave at least one swap to act on the hint', () => {
+    const before = playing({ swaps: 3 });
+    expect(hint(before, 3)).toBe(before);
+    expect(hint(before, 2).swaps).toBe(1);
+  });
+
+  it('should refuse on a solved board or a finished game', () => {
+    const solved = playing({ grid: buildGrid() });
+    const lost = playing({ status: 'LOST' });
+    expect(hint(solved, 1)).toBe(solved);
+    expect(hint(lost, 1)).toBe(lost);
+  });
+
+  it('should agree with canHint', () => {
+    expect(canHint(playing(), 1)).toBe(true);
+    expect(canHint(playing({ hint: { from: A, to: B } }), 1)).toBe(false);
+    expect(canHint(playing({ swaps: 1 }), 1)).toBe(false);
+    expect(canHint(INITIAL_GAME_STATE, 1)).toBe(false);
+  });
+});
+
+describe('countSwapsMade', () => {
+  const undo = (state: GameState, undoMode: 'refund' | 'penalty') =>
+    gameReducer(state, { type: 'UNDO', undoMode, solution: testSolution, timestamp: 2000 });
+  const hint = (state: GameState) =>
+    gameReducer(state, { type: 'HINT', hintCost: 2, solution: testSolution, timestamp: 3000 });
+
+  it('should count every swap made, including ones undone later', () => {
+    expect(countSwapsMade(undo(swap(playing(), A, B), 'refund'))).toBe(1);
+    expect(countSwapsMade(swap(undo(swap(playing(), A, B), 'refund'), A, B))).toBe(2);
+  });
+
+  it('should not count swaps spent on hints or undo penalties', () => {
+    const state = undo(swap(hint(playing()), A, B), 'penalty');
+    expect(state.swaps).toBe(TOTAL_SWAPS - 4);
+    expect(countSwapsMade(state)).toBe(1);
+  });
+
+  it('should fall back to swaps spent for games saved before the move log', () => {
+    expect(countSwapsMade({ swaps: TOTAL_SWAPS - 6, moves: [] })).toBe(6);
+  });
+});
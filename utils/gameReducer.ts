@@ -0,0 +1,189 @@
+/**
+ * Rules of a game of Waffle as a pure reducer: which moves are allowed, what
+ * they cost, and when the game is won or lost. Storage, animation and
+ * announcements are left to the caller (see useWaffleGame), so the same rules
+ * run daily, archive and practice games.
+ *
+ * The solution is passed in with the actions that need it rather than kept in
+ * the state, so the state can be saved as it is.
+ */
+
+import { CellStatus, Coords, GameStatus, Grid, MoveRecord, Swap, UndoMode } from '../types';
+import { GRID_SIZE, TOTAL_SWAPS } from '../constants';
+import { checkWin, isValidCell, swapCells } from './gameLogic';
+import { findHint } from './solver';
+import type { SavedGameState } from './statsDb';
+
+export interface GameState {
+  puzzleId: number | null; // null until a game is loaded
+  grid: Grid | null;
+  swaps: number; // Swaps left
+  status: GameStatus;
+  history: Swap[]; // Swaps that can still be undone
+  moves: MoveRecord[]; // Every swap and undo, in order
+  hintsUsed: number;
+  hint: Swap | null; // Suggested swap the player has paid for but not made yet
+  updatedAt: number | null; // Time of the last move, compared with games saved by other tabs and devices
+}
+
+export type GameAction =
+  | { type: 'LOAD'; state: SavedGameState }
+  | { type: 'RESET' }
+  | { type: 'SWAP'; from: Coords; to: Coords; solution: string[][]; timestamp: number }
+  | { type: 'UNDO'; undoMode: UndoMode; solution: string[][]; timestamp: number }
+  | { type: 'HINT'; hintCost: number; solution: string[][]; timestamp: number };
+
+export const INITIAL_GAME_STATE: GameState = {
+  puzzleId: null,
+  grid: null,
+  swaps: TOTAL_SWAPS,
+  status: 'PLAYING',
+  history: [],
+  moves: [],
+  hintsUsed: 0,
+  hint: null,
+  updatedAt: null,
+};
+
+// A game not played yet; a starting grid that happens to be solved is already won
+export const createNewGame = (puzzleId: number, initialGrid: Grid): SavedGameState => ({
+  puzzleId,
+  grid: initialGrid,
+  swaps: TOTAL_SWAPS,
+  status: checkWin(initialGrid) ? 'WON' : 'PLAYING',
+  history: [],
+  moves: [],
+  hintsUsed: 0,
+  hint: null,
+});
+
+// The state as it is saved; null while no game is loaded
+export const toSavedState = (state: GameState): SavedGameState | null => {
+  if (state.puzzleId === null || !state.grid) return null;
+  return {
+    puzzleId: state.puzzleId,
+    grid: state.grid,
+    swaps: state.swaps,
+    status: state.status,
+    history: state.history,
+    moves: state.moves,
+    hintsUsed: state.hintsUsed,
+    hint: state.hint,
+    ...(state.updatedAt !== null && { updatedAt: state.updatedAt }),
+  };
+};
+
+// Swaps the player made themselves, undone ones included; hints and undo
+// penalties also cost swaps, so this isn't TOTAL_SWAPS - swaps. Games saved
+// before the move log only have what they spent to go on.
+export const countSwapsMade = (state: Pick<GameState, 'swaps' | 'moves'>): number =>
+  state.moves.length > 0 ? state.moves.filter(move => !move.isUndo).length : TOTAL_SWAPS - state.swaps;
+
+const isMovable = (grid: Grid, { row, col }: Coords): boolean =>
+  row >= 0 && row < GRID_SIZE && col >= 0 && col < GRID_SIZE &&
+  isValidCell(row, col) && grid[row][col].status !== CellStatus.CORRECT;
+
+// Two different tiles, neither of them in place, while the game is on
+export const canSwap = (state: GameState, from: Coords, to: Coords): boolean =>
+  state.status === 'PLAYING' && state.grid !== null && state.swaps > 0 &&
+  (from.row !== to.row || from.col !== to.col) &&
+  isMovable(state.grid, from) && isMovable(state.grid, to);
+
+// Undo costs a swap unless the rules refund it; each undo needs a swap left to spend
+export const canUndo = (state: GameState, undoMode: UndoMode): boolean =>
+  state.status === 'PLAYING' && state.history.length > 0 &&
+  (undoMode === 'refund' || (undoMode === 'penalty' && state.swaps > 1));
+
+// A hint is paid for in swaps and must leave at least one swap to act on it
+export const canHint = (state: GameState, hintCost: number): boolean =>
+  state.status === 'PLAYING' && state.grid !== null && state.hint === null && state.swaps > hintCost;
+
+// Log entry of a swap, with the colors it left behind
+const logMove = (grid: Grid, from: Coords, to: Coords, timestamp: number, isUndo = false): MoveRecord => ({
+  from,
+  to,
+  fromStatus: grid[from.row][from.col].status,
+  toStatus: grid[to.row][to.col].status,
+  timestamp,
+  ...(isUndo && { isUndo: true }),
+});
+
+/**
+ * Next state after an action. Actions that the rules don't allow return the
+ * same state object, so callers can tell that nothing happened.
+ */
+export const gameReducer = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'LOAD': {
+      const saved = action.state;
+      return {
+        puzzleId: saved.puzzleId,
+        grid: saved.grid,
+        swaps: saved.swaps,
+        status: saved.status,
+        history: saved.history ?? [],
+        moves: saved.moves ?? [],
+        hintsUsed: saved.hintsUsed ?? 0,
+        hint: saved.hint ?? null,
+        updatedAt: saved.updatedAt ?? null,
+      };
+    }
+
+    case 'RESET':
+      return INITIAL_GAME_STATE;
+
+    case 'SWAP': {
+      const { from, to, solution, timestamp } = action;
+      if (!canSwap(state, from, to)) return state;
+
+      const grid = swapCells(state.grid!, from, to, solution);
+      const swaps = state.swaps - 1;
+      let status: GameStatus = 'PLAYING';
+      if (checkWin(grid)) status = 'WON';
+      else if (swaps <= 0) status = 'LOST';
+
+      return {
+        ...state,
+        grid,
+        swaps,
+        status,
+        history: [...state.history, { from, to }],
+        moves: [...state.moves, logMove(grid, from, to, timestamp)],
+        hint: null,
+        updatedAt: timestamp,
+      };
+    }
+
+    case 'UNDO': {
+      const { undoMode, solution, timestamp } = action;
+      if (!state.grid || !canUndo(state, undoMode)) return state;
+
+      const last = state.history[state.history.length - 1];
+      const grid = swapCells(state.grid, last.to, last.from, solution);
+      return {
+        ...state,
+        grid,
+        swaps: undoMode === 'refund' ? state.swaps + 1 : state.swaps - 1,
+        history: state.history.slice(0, -1),
+        moves: [...state.moves, logMove(grid, last.to, last.from, timestamp, true)],
+        hint: null,
+        updatedAt: timestamp,
+      };
+    }
+
+    case 'HINT': {
+      const { hintCost, solution, timestamp } = action;
+      if (!canHint(state, hintCost)) return state;
+
+      const hint = findHint(state.grid!, solution);
+      if (!hint) return state;
+      return {
+        ...state,
+        swaps: state.swaps - hintCost,
+        hintsUsed: state.hintsUsed + 1,
+        hint,
+        updatedAt: timestamp,
+      };
+    }
+  }
+};
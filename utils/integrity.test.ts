@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { verifySavedGame, verifySavedGrid } from './integrity';
+import { getPuzzleById } from './daily';
+import { CellStatus, Grid } from '../types';
+import { SavedGameState } from './statsDb';
+
+const puzzle = getPuzzleById(7);
+
+const copyGrid = (grid: Grid): Grid => grid.map(row => row.map(cell => ({ ...cell })));
+
+const savedState = (overrides: Partial<SavedGameState> = {}): SavedGameState => ({
+  puzzleId: 7,
+  grid: puzzle.initialGrid,
+  swaps: 15,
+  status: 'PLAYING',
+  history: [],
+  moves: [],
+  ...overrides,
+});
+
+const solvedGrid = (): Grid => puzzle.solution.map(row => row.map(char => (
+  char === ' ' ? { char: '', status: CellStatus.NONE } : { char, status: CellStatus.CORRECT }
+)));
+
+describe('verifySavedGrid', () => {
+  it('should accept the starting grid', () => {
+    expect(verifySavedGrid(puzzle.initialGrid, puzzle.solution)).toEqual(puzzle.initialGrid);
+  });
+
+  it('should recompute colors instead of trusting them', () => {
+    const grid = copyGrid(puzzle.initialGrid);
+    grid[0][0].status = CellStatus.CORRECT;
+    grid[0][1].status = CellStatus.CORRECT;
+
+    expect(verifySavedGrid(grid, puzzle.solution)).toEqual(puzzle.initialGrid);
+  });
+
+  it('should reject letters that are not in the puzzle', () => {
+    const grid = copyGrid(puzzle.initialGrid);
+    grid[0][0].char = 'X';
+
+    expect(verifySavedGrid(grid, puzzle.solution)).toBeNull();
+  });
+
+  it('should reject letters in the gaps', () => {
+    const grid = copyGrid(puzzle.initialGrid);
+    grid[1][1].char = 'А';
+
+    expect(verifySavedGrid(grid, puzzle.solution)).toBeNull();
+  });
+
+  it('should reject a grid of the wrong size', () => {
+    expect(verifySavedGrid(puzzle.initialGrid.slice(1), puzzle.solution)).toBeNull();
+  });
+
+  it('should reject the grid of another puzzle', () => {
+    expect(verifySavedGrid(getPuzzleById(8).initialGrid, puzzle.solution)).toBeNull();
+  });
+});
+
+describe('verifySavedGame', () => {
+  it('should accept a game saved by the app', () => {
+    expect(verifySavedGame(savedState(), puzzle.solution)).toEqual(savedState());
+  });
+
+  it('should accept a won game', () => {
+    const state = savedState({ grid: solvedGrid(), status: 'WON', swaps: 3 });
+    expect(verifySavedGame(state, puzzle.solution)).toEqual(state);
+  });
+
+  it('should reject a win on an unsolved grid', () => {
+    expect(verifySavedGame(savedState({ status: 'WON' }), puzzle.solution)).toBeNull();
+  });
+
+  it('should reject impossible swap counts', () => {
+    expect(verifySavedGame(savedState({ swaps: 99 }), puzzle.solution)).toBeNull();
+    expect(verifySavedGame(savedState({ swaps: -1 }), puzzle.solution)).toBeNull();
+    expect(verifySavedGame(savedState({ swaps: 2.5 }), puzzle.solution)).toBeNull();
+  });
+
+  it('should reject swaps outside the board', () => {
+    const offBoard = { from: { row: 0, col: 0 }, to: { row: 1, col: 1 } };
+    expect(verifySavedGame(savedState({ history: [offBoard] }), puzzle.solution)).toBeNull();
+    expect(verifySavedGame(savedState({ hint: { from: { row: 0, col: 0 }, to: { row: 9, col: 0 } } }), puzzle.solution)).toBeNull();
+  });
+});
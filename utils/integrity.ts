@@ -0,0 +1,65 @@
+/**
+ * Integrity checks for saved games. The solution is never stored, so a saved
+ * game is checked against the regenerated puzzle before it is resumed: a grid
+ * edited by hand (or saved for a different puzzle) is rejected rather than
+ * trusted.
+ */
+
+import { CellStatus, Coords, Grid, Swap } from '../types';
+import { GRID_SIZE, TOTAL_SWAPS } from '../constants';
+import { checkWin, isValidCell, updateColors } from './gameLogic';
+import type { SavedGameState } from './statsDb';
+
+// Stored swaps come from storage, so they may be missing parts
+const isBoardCoords = (coords: Coords | undefined): boolean =>
+  !!coords && Number.isInteger(coords.row) && Number.isInteger(coords.col) &&
+  coords.row >= 0 && coords.row < GRID_SIZE && coords.col >= 0 && coords.col < GRID_SIZE &&
+  isValidCell(coords.row, coords.col);
+
+const isBoardSwap = (swap: Swap | null): boolean => !!swap && isBoardCoords(swap.from) && isBoardCoords(swap.to);
+
+/**
+ * The saved grid recolored against `solution`, or null if it isn't a
+ * rearrangement of the puzzle's letters. Stored colors are never trusted.
+ */
+export const verifySavedGrid = (grid: Grid, solution: string[][]): Grid | null => {
+  if (grid.length !== GRID_SIZE || grid.some(row => row.length !== GRID_SIZE)) return null;
+
+  const balance = new Map<string, number>();
+  for (let r = 0; r < GRID_SIZE; r++) {
+    for (let c = 0; c < GRID_SIZE; c++) {
+      const char = grid[r][c].char;
+      if (!isValidCell(r, c)) {
+        if (char !== '') return null;
+        continue;
+      }
+      balance.set(char, (balance.get(char) || 0) + 1);
+      balance.set(solution[r][c], (balance.get(solution[r][c]) || 0) - 1);
+    }
+  }
+  for (const count of balance.values()) {
+    if (count !== 0) return null;
+  }
+
+  const clean: Grid = grid.map((row, r) => row.map((cell, c) => ({
+    char: cell.char,
+    status: isValidCell(r, c) ? CellStatus.WRONG : CellStatus.NONE,
+  })));
+  return updateColors(clean, solution);
+};
+
+/**
+ * A saved game checked against its puzzle's solution, with the grid
+ * recolored; null if the grid, swap count, result or any stored swap
+ * doesn't fit the puzzle.
+ */
+export const verifySavedGame = (state: SavedGameState, solution: string[][]): SavedGameState | null => {
+  const grid = verifySavedGrid(state.grid, solution);
+  if (!grid) return null;
+  if (!Number.isInteger(state.swaps) || state.swaps < 0 || state.swaps > TOTAL_SWAPS) return null;
+  if (state.status === 'WON' && !checkWin(grid)) return null;
+  if (state.history && !state.history.every(isBoardSwap)) return null;
+  if (state.moves && !state.moves.every(isBoardSwap)) return null;
+  if (state.hint && !isBoardSwap(state.hint)) return null;
+  return { ...state, grid };
+};
@@ -0,0 +1,242 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  MIGRATIONS,
+  Migration,
+  RECORDS_STORE,
+  STATS_STORE,
+  GAME_STATE_STORE,
+  ARCHIVE_RECORDS_STORE,
+  ARCHIVE_STATE_STORE,
+  checkMigrations,
+  latestVersion,
+  openDatabase,
+  transformEntries,
+} from './migrations';
+import { ensureConsistentStats, getGameRecordsBetween, loadGameState, readAllStores, computeStatsFromRecords } from './statsDb';
+import { closeDB, setBackend } from './db';
+import { createLocalStorageBackend, migrateKeyValueStores } from './storageBackend';
+import { getPuzzleById } from './daily';
+import { GameRecord } from '../types';
+
+const DB_NAME = 'mkwaffle-stats';
+
+const records: GameRecord[] = [
+  { puzzleId: 1, stars: 5, date: '2026-01-17' },
+  { puzzleId: 2, stars: -1, date: '2026-01-18' },
+  { puzzleId: 3, stars: 3, date: '2026-01-19' },
+];
+
+const put = (db: IDBDatabase, storeName: string, values: unknown[], key?: IDBValidKey): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    for (const value of values) transaction.objectStore(storeName).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const getAll = <T>(db: IDBDatabase, storeName: string): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// A database as an older version of the game left it
+const createOldDatabase = async (version: number, fill: (db: IDBDatabase) => Promise<void>) => {
+  const db = await openDatabase(DB_NAME, MIGRATIONS.slice(0, version));
+  await fill(db);
+  db.close();
+};
+
+beforeEach(async () => {
+  await closeDB();
+  globalThis.indexedDB = new IDBFactory();
+});
+
+describe('checkMigrations', () => {
+  it('should accept the registry', () => {
+    expect(() => checkMigrations(MIGRATIONS)).not.toThrow();
+  });
+
+  it('should reject gaps and reordering', () => {
+    const [first, second, third] = MIGRATIONS;
+    expect(() => checkMigrations([first, third])).toThrow();
+    expect(() => checkMigrations([second, first])).toThrow();
+  });
+});
+
+describe('openDatabase', () => {
+  it('should create every store in a new database', async () => {
+    const db = await openDatabase(DB_NAME);
+
+    expect(db.version).toBe(MIGRATIONS.length);
+    expect([...db.objectStoreNames].sort()).toEqual(
+      [RECORDS_STORE, STATS_STORE, GAME_STATE_STORE, ARCHIVE_RECORDS_STORE, ARCHIVE_STATE_STORE].sort()
+    );
+    db.close();
+  });
+
+  it('should only run migrations newer than the database', async () => {
+    const up = vi.fn();
+    const registry: Migration[] = [...MIGRATIONS, { version: MIGRATIONS.length + 1, description: 'test', up }];
+
+    (await openDatabase(DB_NAME, registry)).close();
+    (await openDatabase(DB_NAME, registry)).close();
+
+    expect(up).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('migrating old databases', () => {
+  it('should carry a v1 database forward without losing stats', async () => {
+    const stats = computeStatsFromRecords(records);
+    await createOldDatabase(1, async db => {
+      await put(db, RECORDS_STORE, records);
+      await put(db, STATS_STORE, [stats], 'userStats');
+    });
+
+    const snapshot = await readAllStores();
+
+    expect(snapshot.gameRecords).toEqual(records);
+    expect(snapshot.stats).toEqual(stats);
+    expect(snapshot.gameState).toEqual([]);
+    expect(snapshot.archiveRecords).toEqual([]);
+    // Nothing to repair, and the date index still works
+    expect(await ensureConsistentStats()).toMatchObject({ played: 3, totalStars: 8 });
+    expect(await getGameRecordsBetween('2026-01-18', '2026-01-19')).toEqual(records.slice(1));
+  });
+
+  it('should keep the saved game of a v2 database, without its solution', async () => {
+    const puzzle = getPuzzleById(4);
+    const state = { puzzleId: 4, grid: puzzle.initialGrid, swaps: 12, status: 'PLAYING' };
+    await createOldDatabase(2, db => put(db, GAME_STATE_STORE, [{ ...state, solution: puzzle.solution }]));
+
+    expect(await loadGameState(4)).toEqual(state);
+  });
+
+  it('should drop the solution from saved archive games', async () => {
+    const puzzle = getPuzzleById(4);
+    const state = { puzzleId: 4, grid: puzzle.initialGrid, swaps: 12, status: 'WON' };
+    await createOldDatabase(3, db => put(db, ARCHIVE_STATE_STORE, [{ ...state, solution: puzzle.solution }]));
+
+    expect((await readAllStores()).archiveGameState).toEqual([state]);
+  });
+
+  it('should let a migration rewrite existing entries', async () => {
+    await createOldDatabase(3, db => put(db, RECORDS_STORE, records));
+
+    const registry: Migration[] = [...MIGRATIONS, {
+      version: latestVersion(MIGRATIONS) + 1,
+      description: 'Backfill hintsUsed and drop losses',
+      up: (_db, transaction) => {
+        transformEntries<GameRecord>(transaction, RECORDS_STORE, record =>
+          record.stars < 0 ? null : { ...record, hintsUsed: record.hintsUsed ?? 0 }
+        );
+      },
+    }];
+    const db = await openDatabase(DB_NAME, registry);
+
+    expect(await getAll(db, RECORDS_STORE)).toEqual([
+      { puzzleId: 1, stars: 5, date: '2026-01-17', hintsUsed: 0 },
+      { puzzleId: 3, stars: 3, date: '2026-01-19', hintsUsed: 0 },
+    ]);
+    db.close();
+  });
+
+  it('should roll back the whole upgrade when a migration fails', async () => {
+    await createOldDatabase(2, db => put(db, RECORDS_STORE, records));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const registry: Migration[] = [...MIGRATIONS, {
+      version: latestVersion(MIGRATIONS) + 1,
+      description: 'Broken',
+      up: () => {
+        throw new Error('broken migration');
+      },
+    }];
+    await expect(openDatabase(DB_NAME, registry)).rejects.toBeDefined();
+
+    // Still at v2: the v3 stores were not created and the records are untouched
+    const db = await openDatabase(DB_NAME, MIGRATIONS.slice(0, 2));
+    expect(db.version).toBe(2);
+    expect(db.objectStoreNames.contains(ARCHIVE_RECORDS_STORE)).toBe(false);
+    expect(await getAll(db, RECORDS_STORE)).toEqual(records);
+    db.close();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('migrating localStorage stores', () => {
+  // localStorage as an earlier version of the game left it
+  const createStorage = (entries: Record<string, unknown[]>, version?: number) => {
+    const items = new Map<string, string>();
+    for (const [storeName, values] of Object.entries(entries)) {
+      items.set(`mkwaffle.db.${storeName}`, JSON.stringify(values.map(value => [(value as GameRecord).puzzleId, value])));
+    }
+    if (version !== undefined) items.set('mkwaffle.db.version', String(version));
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+    };
+    return { items, storage };
+  };
+
+  const rewriteRecords = (transform: (record: GameRecord) => GameRecord | null): Migration[] => [...MIGRATIONS, {
+    version: latestVersion(MIGRATIONS) + 1,
+    description: 'test',
+    transforms: { [RECORDS_STORE]: value => transform(value as unknown as GameRecord) as unknown as Record<string, unknown> | null },
+  }];
+
+  it('should drop the solution from games saved before the stores had a version', async () => {
+    const puzzle = getPuzzleById(4);
+    const state = { puzzleId: 4, grid: puzzle.initialGrid, swaps: 12, status: 'PLAYING' };
+    const { items, storage } = createStorage({
+      [GAME_STATE_STORE]: [{ ...state, solution: puzzle.solution }],
+      [ARCHIVE_STATE_STORE]: [{ ...state, status: 'WON', solution: puzzle.solution }],
+    });
+    setBackend(createLocalStorageBackend(storage));
+
+    expect(await loadGameState(4)).toEqual(state);
+    expect((await readAllStores()).archiveGameState).toEqual([{ ...state, status: 'WON' }]);
+    expect(items.get(`mkwaffle.db.${GAME_STATE_STORE}`)).not.toContain('solution');
+    expect(items.get('mkwaffle.db.version')).toBe(String(latestVersion(MIGRATIONS)));
+    setBackend(null);
+  });
+
+  it('should start new stores at the latest version', () => {
+    const { items, storage } = createStorage({});
+
+    migrateKeyValueStores(storage, MIGRATIONS);
+
+    expect(items.get('mkwaffle.db.version')).toBe(String(latestVersion(MIGRATIONS)));
+    expect(items.size).toBe(1);
+  });
+
+  it('should only run migrations newer than the stores', () => {
+    const { items, storage } = createStorage({ [RECORDS_STORE]: records }, latestVersion(MIGRATIONS));
+    const registry = rewriteRecords(record => (record.stars < 0 ? null : { ...record, hintsUsed: 0 }));
+
+    migrateKeyValueStores(storage, registry);
+    migrateKeyValueStores(storage, registry);
+
+    const stored = JSON.parse(items.get(`mkwaffle.db.${RECORDS_STORE}`)!) as [number, GameRecord][];
+    expect(stored.map(([, record]) => record)).toEqual([
+      { puzzleId: 1, stars: 5, date: '2026-01-17', hintsUsed: 0 },
+      { puzzleId: 3, stars: 3, date: '2026-01-19', hintsUsed: 0 },
+    ]);
+  });
+
+  it('should leave the stores as they were when a migration fails', () => {
+    const { items, storage } = createStorage({ [RECORDS_STORE]: records }, latestVersion(MIGRATIONS));
+    const before = new Map(items);
+
+    expect(() => migrateKeyValueStores(storage, rewriteRecords(() => {
+      throw new Error('broken migration');
+    }))).toThrow('broken migration');
+    expect(items).toEqual(before);
+  });
+});
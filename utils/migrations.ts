@@ -0,0 +1,160 @@
+/**
+ * Versioned schema of the mkwaffle-stats IndexedDB database.
+ *
+ * Every change to the stores or to the shape of stored data gets a new entry
+ * in MIGRATIONS with the next version number. Opening the database runs every
+ * migration newer than the version on disk, in order, inside the upgrade
+ * transaction - if one throws, the whole upgrade is rolled back and the
+ * player's data stays as it was. The localStorage and memory fallbacks run the
+ * entry transforms of the same migrations (see storageBackend.ts). Never edit
+ * a migration that has shipped.
+ */
+
+export const RECORDS_STORE = 'gameRecords';
+export const STATS_STORE = 'stats';
+export const GAME_STATE_STORE = 'gameState';
+export const ARCHIVE_RECORDS_STORE = 'archiveRecords';
+export const ARCHIVE_STATE_STORE = 'archiveGameState';
+
+export interface StoreSchema {
+  keyPath: string | null; // null: entries are stored under an explicit key
+  indexes: Record<string, string>; // index name -> key path
+}
+
+// Shape of every store after the latest migration, for the storage fallbacks, which create stores on first use
+export const STORE_SCHEMA: Record<string, StoreSchema> = {
+  [RECORDS_STORE]: { keyPath: 'puzzleId', indexes: { date: 'date' } },
+  [STATS_STORE]: { keyPath: null, indexes: {} },
+  [GAME_STATE_STORE]: { keyPath: 'puzzleId', indexes: {} },
+  [ARCHIVE_RECORDS_STORE]: { keyPath: 'puzzleId', indexes: {} },
+  [ARCHIVE_STATE_STORE]: { keyPath: 'puzzleId', indexes: {} },
+};
+
+// Rewrite of one stored entry: the new value, or null to delete the entry
+export type EntryTransform = (value: Record<string, unknown>) => Record<string, unknown> | null;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction: create stores and indexes
+  up?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // Rewrites of existing entries, by store name; run after `up`, and on every storage backend
+  transforms?: Record<string, EntryTransform>;
+}
+
+const stripSolution: EntryTransform = state => {
+  const { solution: _solution, ...rest } = state;
+  return rest;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Game records (by puzzleId, indexed by date) and the stats document',
+    up: (db) => {
+      const recordsStore = db.createObjectStore(RECORDS_STORE, { keyPath: 'puzzleId' });
+      recordsStore.createIndex('date', 'date', { unique: false });
+      db.createObjectStore(STATS_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: 'Saved game state, to resume a game after reloading',
+    up: (db) => {
+      db.createObjectStore(GAME_STATE_STORE, { keyPath: 'puzzleId' });
+    },
+  },
+  {
+    version: 3,
+    description: 'Archive records and games, kept apart so they never affect streaks',
+    up: (db) => {
+      db.createObjectStore(ARCHIVE_RECORDS_STORE, { keyPath: 'puzzleId' });
+      db.createObjectStore(ARCHIVE_STATE_STORE, { keyPath: 'puzzleId' });
+    },
+  },
+  {
+    version: 4,
+    description: 'Drop the plaintext solution from saved games; it is regenerated from the puzzle number',
+    transforms: {
+      [GAME_STATE_STORE]: stripSolution,
+      [ARCHIVE_STATE_STORE]: stripSolution,
+    },
+  },
+];
+
+// Migrations must be numbered 1, 2, 3, ... without gaps
+export const checkMigrations = (migrations: Migration[]): void => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration ${index + 1} is numbered ${migration.version}`);
+    }
+  });
+};
+
+export const latestVersion = (migrations: Migration[]): number =>
+  migrations.length === 0 ? 0 : migrations[migrations.length - 1].version;
+
+// Run every migration newer than `oldVersion`, oldest first
+export const runMigrations = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): void => {
+  for (const migration of migrations) {
+    if (migration.version > oldVersion) {
+      migration.up?.(db, transaction);
+      for (const [storeName, transform] of Object.entries(migration.transforms ?? {})) {
+        transformEntries(transaction, storeName, transform);
+      }
+    }
+  }
+};
+
+/**
+ * Rewrite every entry of a store during a migration. `transform` returns the
+ * new value, or null to delete the entry. For stores with a keyPath the key
+ * must not change.
+ */
+export const transformEntries = <T>(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: (value: T) => T | null
+): void => {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const next = transform(cursor.value as T);
+    if (next === null) cursor.delete();
+    else cursor.update(next);
+    cursor.continue();
+  };
+};
+
+// Open `name`, migrating it to the newest version in `migrations`
+export function openDatabase(name: string, migrations: Migration[] = MIGRATIONS): Promise<IDBDatabase> {
+  checkMigrations(migrations);
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, latestVersion(migrations));
+
+    request.onerror = () => {
+      reject(request.error);
+    };
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      try {
+        runMigrations(request.result, transaction, event.oldVersion, migrations);
+      } catch (error) {
+        // Rolls back every migration of this upgrade; the open request then fails
+        console.error('Database migration failed:', error);
+        transaction.abort();
+      }
+    };
+  });
+}
@@ -0,0 +1,124 @@
+/**
+ * Validation and merging of game records and saved games, shared by backups
+ * and sync. Both sides of a merge may come from another device.
+ */
+
+import { CellStatus, GameRecord, GameStats } from '../types';
+import { GRID_SIZE } from '../constants';
+import type { SavedGameState } from './statsDb';
+
+// ============ VALIDATION ============
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPuzzleId = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1;
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isOptionalTimestamp = (value: unknown): boolean =>
+  value === undefined || (Number.isFinite(value) && (value as number) >= 0);
+
+export const isGameRecord = (value: unknown): value is GameRecord =>
+  isObject(value) &&
+  isPuzzleId(value.puzzleId) &&
+  Number.isInteger(value.stars) && (value.stars as number) >= -1 && (value.stars as number) <= 5 &&
+  isDateString(value.date) &&
+  (value.hintsUsed === undefined || (Number.isInteger(value.hintsUsed) && (value.hintsUsed as number) >= 0)) &&
+  isOptionalTimestamp(value.recordedAt) &&
+  (value.finalGrid === undefined || typeof value.finalGrid === 'string') &&
+  (value.moves === undefined || Array.isArray(value.moves));
+
+const isSquare = (value: unknown, isCell: (cell: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.length === GRID_SIZE &&
+  value.every(row => Array.isArray(row) && row.length === GRID_SIZE && row.every(isCell));
+
+const CELL_STATUSES = Object.values(CellStatus) as string[];
+
+export const isSavedGameState = (value: unknown): value is SavedGameState =>
+  isObject(value) &&
+  isPuzzleId(value.puzzleId) &&
+  typeof value.swaps === 'number' &&
+  (value.status === 'PLAYING' || value.status === 'WON' || value.status === 'LOST') &&
+  isSquare(value.grid, cell => isObject(cell) && typeof cell.char === 'string' && CELL_STATUSES.includes(cell.status as string)) &&
+  (value.history === undefined || Array.isArray(value.history)) &&
+  (value.moves === undefined || Array.isArray(value.moves)) &&
+  isOptionalTimestamp(value.updatedAt);
+
+const isCount = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+
+export const isGameStats = (value: unknown): value is GameStats =>
+  isObject(value) &&
+  isCount(value.played) &&
+  isCount(value.totalStars) &&
+  isCount(value.currentStreak) &&
+  isCount(value.bestStreak) &&
+  isObject(value.distribution) && Object.values(value.distribution).every(isCount) &&
+  (value.lastPlayedDate === null || isDateString(value.lastPlayedDate));
+
+// Saved games from before the solution stopped being stored still carry it; drop it
+export const withoutSolution = (state: SavedGameState): SavedGameState => {
+  const { solution: _solution, ...rest } = state as SavedGameState & { solution?: unknown };
+  return rest;
+};
+
+// ============ MERGE ============
+
+// Union by puzzleId, sorted; `pick` decides when both sides have the same puzzle
+export const mergeByPuzzleId = <T extends { puzzleId: number }>(
+  local: T[],
+  other: T[],
+  pick: (local: T, other: T) => T
+): T[] => {
+  const merged = new Map<number, T>();
+  for (const item of local) merged.set(item.puzzleId, item);
+  for (const item of other) {
+    const existing = merged.get(item.puzzleId);
+    merged.set(item.puzzleId, existing ? pick(existing, item) : item);
+  }
+  return [...merged.values()].sort((a, b) => a.puzzleId - b.puzzleId);
+};
+
+// A puzzle's first result stands, as when recording it: the earlier day, then the earlier save
+export const pickRecord = (local: GameRecord, other: GameRecord): GameRecord => {
+  if (other.date !== local.date) return other.date < local.date ? other : local;
+  if (local.recordedAt !== undefined && other.recordedAt !== undefined) {
+    return other.recordedAt < local.recordedAt ? other : local;
+  }
+  return local;
+};
+
+/**
+ * A finished game beats one still in progress. Of two finished games the one
+ * finished first stands (it is the one that was recorded); of two in progress
+ * the one saved last wins. Without timestamps, the game that got further wins.
+ */
+export const pickGameState = (local: SavedGameState, other: SavedGameState): SavedGameState => {
+  const localDone = local.status !== 'PLAYING';
+  const otherDone = other.status !== 'PLAYING';
+  if (localDone !== otherDone) return localDone ? local : other;
+
+  if (local.updatedAt !== undefined && other.updatedAt !== undefined && local.updatedAt !== other.updatedAt) {
+    const [older, newer] = other.updatedAt > local.updatedAt ? [local, other] : [other, local];
+    return localDone ? older : newer;
+  }
+  if (localDone) return local;
+  return (other.moves?.length ?? 0) > (local.moves?.length ?? 0) ? other : local;
+};
+
+/**
+ * What a tab should do with a game of the puzzle it is showing, saved by
+ * another tab or pulled by a sync, by the rules of pickGameState: take it over
+ * if it is ahead, save its own game again if that is ahead (so the other side
+ * takes it over and it ends up in storage whichever save landed last), or keep
+ * its own when neither is ahead.
+ */
+export type ReceivedGameAction = 'adopt' | 'answer' | 'keep';
+
+export const resolveReceivedGame = (current: SavedGameState, received: SavedGameState): ReceivedGameAction => {
+  if (pickGameState(current, received) === received) return 'adopt';
+  if (pickGameState(received, current) === current) return 'answer';
+  return 'keep';
+};
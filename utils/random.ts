@@ -0,0 +1,21 @@
+// Pseudo-random number generator (Mulberry32)
+// This ensures everyone gets the same shuffle for the same seed
+export function mulberry32(a: number) {
+  return function() {
+    let t = a += 0x6D2B79F5;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+// Fisher-Yates shuffle driven by a seed
+export const seededShuffle = <T,>(array: T[], seed: number): T[] => {
+  const rng = mulberry32(seed);
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
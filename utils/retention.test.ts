@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { decodeGridLetters, encodeGridLetters, planPrune, summarizeGame } from './retention';
+import { getPuzzleById } from './daily';
+import { SavedGameState } from './statsDb';
+import { CellStatus, GameRecord, MoveRecord } from '../types';
+
+const TODAY = 40;
+
+const move: MoveRecord = {
+  from: { row: 0, col: 0 },
+  to: { row: 0, col: 1 },
+  fromStatus: CellStatus.WRONG,
+  toStatus: CellStatus.CORRECT,
+  timestamp: 1000,
+};
+
+const gameState = (puzzleId: number, status: SavedGameState['status'] = 'PLAYING'): SavedGameState => {
+  const puzzle = getPuzzleById(puzzleId);
+  return {
+    puzzleId,
+    grid: puzzle.initialGrid,
+    swaps: status === 'WON' ? 4 : 12,
+    status,
+    moves: [move],
+  };
+};
+
+const record = (puzzleId: number, overrides: Partial<GameRecord> = {}): GameRecord => ({
+  puzzleId,
+  stars: 4,
+  date: '2026-02-01',
+  ...overrides,
+});
+
+describe('encodeGridLetters / decodeGridLetters', () => {
+  it('should round-trip a grid through its letters', () => {
+    const { initialGrid, solution } = getPuzzleById(5);
+    const letters = encodeGridLetters(initialGrid);
+
+    expect(Array.from(letters)).toHaveLength(21);
+    expect(decodeGridLetters(letters, solution)).toEqual(initialGrid);
+  });
+
+  it('should reject letters that do not fill the board', () => {
+    const { solution } = getPuzzleById(5);
+
+    expect(decodeGridLetters('АБВ', solution)).toBeNull();
+    expect(decodeGridLetters('', solution)).toBeNull();
+  });
+});
+
+describe('summarizeGame', () => {
+  it('should keep the final letters and the move log', () => {
+    const state = gameState(5, 'WON');
+
+    expect(summarizeGame(state)).toEqual({ finalGrid: encodeGridLetters(state.grid), moves: [move] });
+  });
+});
+
+describe('planPrune', () => {
+  it('should never prune today\'s game in progress', () => {
+    const plan = planPrune([gameState(TODAY)], [], TODAY);
+
+    expect(plan).toEqual({ deletes: [], records: [], archives: [] });
+  });
+
+  it('should never prune today\'s finished game', () => {
+    const plan = planPrune([gameState(TODAY, 'WON')], [record(TODAY)], TODAY);
+
+    expect(plan).toEqual({ deletes: [], records: [], archives: [] });
+  });
+
+  it('should keep games of later days (clock moved back)', () => {
+    expect(planPrune([gameState(TODAY + 1)], [], TODAY).deletes).toEqual([]);
+  });
+
+  it('should move unfinished games of earlier days to the archive', () => {
+    const plan = planPrune([gameState(TODAY - 1), gameState(TODAY)], [], TODAY);
+
+    expect(plan.deletes).toEqual([TODAY - 1]);
+    expect(plan.archives).toEqual([gameState(TODAY - 1)]);
+    expect(plan.records).toEqual([]);
+  });
+
+  it('should move finished games of earlier days into their records', () => {
+    const state = gameState(TODAY - 3, 'LOST');
+    const plan = planPrune([state], [record(TODAY - 3, { stars: -1 })], TODAY);
+
+    expect(plan.deletes).toEqual([TODAY - 3]);
+    expect(plan.records).toEqual([{ ...record(TODAY - 3, { stars: -1 }), ...summarizeGame(state) }]);
+    expect(plan.archives).toEqual([]);
+  });
+
+  it('should keep finished games that were never recorded', () => {
+    expect(planPrune([gameState(TODAY - 3, 'WON')], [], TODAY)).toEqual({ deletes: [], records: [], archives: [] });
+  });
+
+  it('should not overwrite a summary already in the record', () => {
+    const summarized = record(TODAY - 2, { finalGrid: 'x'.repeat(21), moves: [] });
+    const plan = planPrune([gameState(TODAY - 2, 'WON')], [summarized], TODAY);
+
+    expect(plan.deletes).toEqual([TODAY - 2]);
+    expect(plan.records).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Retention of saved daily games. A saved game is needed only while it can be
+ * resumed or shown as today's result. After that a finished game's final grid
+ * and move log move into the game record - all the calendar and replays need -
+ * and the saved game is deleted; an unfinished one carries on in the archive.
+ */
+
+import { CellStatus, GameRecord, Grid } from '../types';
+import { GRID_SIZE } from '../constants';
+import { isValidCell, updateColors } from './gameLogic';
+import type { SavedGameState } from './statsDb';
+
+// Letters of the board cells, row by row (gaps skipped)
+export const encodeGridLetters = (grid: Grid): string => {
+  let letters = '';
+  for (let r = 0; r < GRID_SIZE; r++) {
+    for (let c = 0; c < GRID_SIZE; c++) {
+      if (isValidCell(r, c)) letters += grid[r][c].char;
+    }
+  }
+  return letters;
+};
+
+// Grid back from its letters, colored against `solution`; null if the letters don't fit the board
+export const decodeGridLetters = (letters: string, solution: string[][]): Grid | null => {
+  const chars = Array.from(letters);
+  let next = 0;
+  const grid: Grid = [];
+  for (let r = 0; r < GRID_SIZE; r++) {
+    grid.push([]);
+    for (let c = 0; c < GRID_SIZE; c++) {
+      grid[r].push(isValidCell(r, c)
+        ? { char: chars[next++] ?? '', status: CellStatus.WRONG }
+        : { char: '', status: CellStatus.NONE });
+    }
+  }
+  return next === chars.length ? updateColors(grid, solution) : null;
+};
+
+// What a finished game leaves in its record
+export const summarizeGame = (state: SavedGameState): Pick<GameRecord, 'finalGrid' | 'moves'> => ({
+  finalGrid: encodeGridLetters(state.grid),
+  moves: state.moves ?? [],
+});
+
+export interface PrunePlan {
+  deletes: number[]; // puzzleIds of saved games to delete
+  records: GameRecord[]; // records to store with their game's summary
+  archives: SavedGameState[]; // unfinished games to save as archive games (and delete)
+}
+
+/**
+ * Which saved daily games to drop on startup:
+ * - today's (and any later) game is always kept, finished or not;
+ * - an unfinished game of an earlier day moves to the archive games, where
+ *   past puzzles are played - as when its day ends with the app open;
+ * - a finished game of an earlier day is summarized into its record and
+ *   deleted, unless it has no record, so an unrecorded result is never lost.
+ */
+export const planPrune = (
+  states: SavedGameState[],
+  records: GameRecord[],
+  todayPuzzleId: number
+): PrunePlan => {
+  const recordsById = new Map(records.map(record => [record.puzzleId, record]));
+  const plan: PrunePlan = { deletes: [], records: [], archives: [] };
+
+  for (const state of states) {
+    if (state.puzzleId >= todayPuzzleId) continue;
+
+    if (state.status === 'PLAYING') {
+      plan.archives.push(state);
+      plan.deletes.push(state.puzzleId);
+      continue;
+    }
+
+    const record = recordsById.get(state.puzzleId);
+    if (!record) continue;
+    if (record.finalGrid === undefined) {
+      plan.records.push({ ...record, ...summarizeGame(state) });
+    }
+    plan.deletes.push(state.puzzleId);
+  }
+
+  return plan;
+};
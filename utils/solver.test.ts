@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import { solve, findHint } from './solver';
+import { isValidCell, generateInitialState, updateColors, checkWin } from './gameLogic';
+import { CellStatus, Coords, Grid, Swap } from '../types';
+import { GRID_SIZE } from '../constants';
+
+// Build a colored grid from a solution with some cells swapped around
+const buildGrid = (solution: string[][], swaps: [Coords, Coords][] = []): Grid => {
+  const grid: Grid = solution.map((row, r) =>
+    row.map((char, c) => ({
+      char: isValidCell(r, c) ? char : '',
+      status: isValidCell(r, c) ? CellStatus.WRONG : CellStatus.NONE
+    }))
+  );
+  for (const [a, b] of swaps) {
+    const temp = grid[a.row][a.col].char;
+    grid[a.row][a.col].char = grid[b.row][b.col].char;
+    grid[b.row][b.col].char = temp;
+  }
+  return updateColors(grid, solution);
+};
+
+const applyMoves = (grid: Grid, moves: Swap[], solution: string[][]): Grid => {
+  const newGrid = grid.map(r => r.map(c => ({ ...c })));
+  for (const { from, to } of moves) {
+    const temp = newGrid[from.row][from.col].char;
+    newGrid[from.row][from.col].char = newGrid[to.row][to.col].char;
+    newGrid[to.row][to.col].char = temp;
+  }
+  return updateColors(newGrid, solution);
+};
+
+describe('solve - distinct letters', () => {
+  const testSolution: string[][] = [
+    ['А', 'Б', 'В', 'Г', 'Д'],
+    ['Е', ' ', 'Ж', ' ', 'З'],
+    ['И', 'Ј', 'К', 'Л', 'М'],
+    ['Н', ' ', 'О', ' ', 'П'],
+    ['Р', 'С', 'Т', 'У', 'Ф']
+  ];
+
+  it('should return 0 swaps for an already solved grid', () => {
+    const result = solve(buildGrid(testSolution), testSolution);
+    expect(result).toEqual({ swaps: 0, moves: [] });
+  });
+
+  it('should find a single swap', () => {
+    const grid = buildGrid(testSolution, [[{ row: 0, col: 0 }, { row: 4, col: 4 }]]);
+    const result = solve(grid, testSolution);
+
+    expect(result?.swaps).toBe(1);
+    expect(result?.moves.length).toBe(1);
+    expect(checkWin(applyMoves(grid, result!.moves, testSolution))).toBe(true);
+  });
+
+  it('should need 2 swaps for a 3-cycle', () => {
+    const grid = buildGrid(testSolution, [
+      [{ row: 0, col: 0 }, { row: 2, col: 2 }],
+      [{ row: 2, col: 2 }, { row: 4, col: 4 }]
+    ]);
+    const result = solve(grid, testSolution);
+
+    expect(result?.swaps).toBe(2);
+    expect(checkWin(applyMoves(grid, result!.moves, testSolution))).toBe(true);
+  });
+
+  it('should count independent cycles separately', () => {
+    const grid = buildGrid(testSolution, [
+      [{ row: 0, col: 1 }, { row: 0, col: 3 }],
+      [{ row: 1, col: 0 }, { row: 3, col: 0 }],
+      [{ row: 4, col: 0 }, { row: 4, col: 2 }],
+      [{ row: 4, col: 2 }, { row: 4, col: 4 }]
+    ]);
+    const result = solve(grid, testSolution);
+
+    // Two 2-cycles (1 swap each) + one 3-cycle (2 swaps)
+    expect(result?.swaps).toBe(4);
+    expect(checkWin(applyMoves(grid, result!.moves, testSolution))).toBe(true);
+  });
+
+  it('should return null when the grid letters do not match the solution', () => {
+    const grid = buildGrid(testSolution);
+    grid[0][0] = { char: 'Х', status: CellStatus.WRONG };
+    expect(solve(grid, testSolution)).toBeNull();
+  });
+});
+
+describe('solve - duplicate letters', () => {
+  // А appears 3 times, Е 4 times, Р twice
+  const testSolution: string[][] = [
+    ['П', 'Л', 'А', 'Ж', 'А'],
+    ['Е', ' ', 'Н', ' ', 'К'],
+    ['В', 'Е', 'Т', 'Е', 'Р'],
+    ['А', ' ', 'И', ' ', 'Е'],
+    ['Ч', 'Е', 'К', 'О', 'Р']
+  ];
+
+  it('should pick the cycle decomposition with the most cycles', () => {
+    // (0,2) and (0,4) both need А, and the two А's could be matched either way.
+    // Matching them crosswise gives one 4-cycle (3 swaps) instead of two 2-cycles.
+    const grid = buildGrid(testSolution, [
+      [{ row: 0, col: 2 }, { row: 0, col: 0 }],
+      [{ row: 0, col: 4 }, { row: 4, col: 3 }]
+    ]);
+    const result = solve(grid, testSolution);
+
+    expect(result?.swaps).toBe(2);
+    expect(checkWin(applyMoves(grid, result!.moves, testSolution))).toBe(true);
+  });
+
+  it('should ignore swaps between identical letters', () => {
+    // Swapping two Е's changes nothing
+    const grid = buildGrid(testSolution, [[{ row: 1, col: 0 }, { row: 2, col: 1 }]]);
+    expect(solve(grid, testSolution)?.swaps).toBe(0);
+  });
+
+  it('should solve the generated starting grid', () => {
+    const grid = generateInitialState(testSolution, 42);
+    const result = solve(grid, testSolution);
+
+    expect(result).not.toBeNull();
+    expect(result!.moves.length).toBe(result!.swaps);
+    expect(checkWin(applyMoves(grid, result!.moves, testSolution))).toBe(true);
+  });
+
+  it('should never need more swaps than misplaced cells minus one', () => {
+    const grid = generateInitialState(testSolution, 42);
+    let misplaced = 0;
+    for (let r = 0; r < GRID_SIZE; r++) {
+      for (let c = 0; c < GRID_SIZE; c++) {
+        if (isValidCell(r, c) && grid[r][c].status !== CellStatus.CORRECT) misplaced++;
+      }
+    }
+
+    expect(solve(grid, testSolution)!.swaps).toBeLessThanOrEqual(misplaced - 1);
+  });
+});
+
+describe('findHint', () => {
+  const testSolution: string[][] = [
+    ['П', 'Л', 'А', 'Ж', 'А'],
+    ['Е', ' ', 'Н', ' ', 'К'],
+    ['В', 'Е', 'Т', 'Е', 'Р'],
+    ['А', ' ', 'И', ' ', 'Е'],
+    ['Ч', 'Е', 'К', 'О', 'Р']
+  ];
+
+  const countCorrect = (grid: Grid): number => {
+    let count = 0;
+    for (let r = 0; r < GRID_SIZE; r++) {
+      for (let c = 0; c < GRID_SIZE; c++) {
+        if (grid[r][c].status === CellStatus.CORRECT) count++;
+      }
+    }
+    return count;
+  };
+
+  it('should return null for a solved grid', () => {
+    expect(findHint(buildGrid(testSolution), testSolution)).toBeNull();
+  });
+
+  it('should prefer a swap that places two letters', () => {
+    // A 3-cycle plus a 2-cycle: only the 2-cycle fixes two letters with one swap
+    const grid = buildGrid(testSolution, [
+      [{ row: 0, col: 0 }, { row: 2, col: 2 }],
+      [{ row: 2, col: 2 }, { row: 4, col: 4 }],
+      [{ row: 0, col: 1 }, { row: 4, col: 0 }]
+    ]);
+    const hint = findHint(grid, testSolution)!;
+    const after = applyMoves(grid, [hint], testSolution);
+
+    expect(countCorrect(after) - countCorrect(grid)).toBe(2);
+  });
+
+  it('should place at least one letter when no two-letter swap exists', () => {
+    const grid = buildGrid(testSolution, [
+      [{ row: 0, col: 0 }, { row: 2, col: 2 }],
+      [{ row: 2, col: 2 }, { row: 4, col: 4 }]
+    ]);
+    const hint = findHint(grid, testSolution)!;
+    const after = applyMoves(grid, [hint], testSolution);
+
+    expect(countCorrect(after) - countCorrect(grid)).toBe(1);
+    expect(solve(after, testSolution)?.swaps).toBe(1);
+  });
+
+  it('should keep the grid on an optimal path', () => {
+    const grid = generateInitialState(testSolution, 42);
+    const before = solve(grid, testSolution)!.swaps;
+    const after = applyMoves(grid, [findHint(grid, testSolution)!], testSolution);
+
+    expect(solve(after, testSolution)!.swaps).toBe(before - 1);
+  });
+});
@@ -0,0 +1,159 @@
+import { Coords, Grid, Swap } from '../types';
+import { isValidCell } from './gameLogic';
+import { GRID_SIZE } from '../constants';
+
+export interface SolverResult {
+  swaps: number;
+  moves: Swap[];
+}
+
+/**
+ * Find the minimum number of swaps that turns `grid` into `solution`,
+ * together with one concrete swap sequence achieving it.
+ *
+ * Every misplaced cell is an edge "current letter → needed letter". Any set of
+ * cells that can be fixed among themselves forms a cycle, and a cycle of k
+ * cells costs k - 1 swaps. The optimum is therefore
+ * (misplaced cells) - (max number of disjoint cycles). With duplicate letters
+ * the cycles are ambiguous, so the best decomposition is found by search.
+ *
+ * Returns null when the grid does not contain the solution's letters.
+ */
+export const solve = (grid: Grid, solution: string[][]): SolverResult | null => {
+  // Step 1: Collect misplaced cells
+  const positions: Coords[] = [];
+  const current: string[] = [];
+  const target: string[] = [];
+  const letterBalance = new Map<string, number>();
+
+  for (let r = 0; r < GRID_SIZE; r++) {
+    for (let c = 0; c < GRID_SIZE; c++) {
+      if (!isValidCell(r, c)) continue;
+      const char = grid[r][c].char;
+      const needed = solution[r][c];
+      letterBalance.set(char, (letterBalance.get(char) || 0) + 1);
+      letterBalance.set(needed, (letterBalance.get(needed) || 0) - 1);
+      if (char !== needed) {
+        positions.push({ row: r, col: c });
+        current.push(char);
+        target.push(needed);
+      }
+    }
+  }
+
+  for (const balance of letterBalance.values()) {
+    if (balance !== 0) return null;
+  }
+
+  if (positions.length === 0) {
+    return { swaps: 0, moves: [] };
+  }
+
+  // Step 2: Search for the decomposition with the most cycles.
+  // A cycle is a list of indices where each cell needs the letter held by the next one.
+  const memo = new Map<number, { count: number; cycle: number[] | null }>();
+
+  const maxCycles = (mask: number): number => {
+    if (mask === 0) return 0;
+    const cached = memo.get(mask);
+    if (cached) return cached.count;
+
+    // The lowest remaining cell must belong to some cycle - try all of them
+    let start = 0;
+    while (!(mask & (1 << start))) start++;
+
+    let best = -1;
+    let bestCycle: number[] | null = null;
+    const path: number[] = [start];
+
+    const extend = (used: number) => {
+      const last = path[path.length - 1];
+      const wanted = target[last];
+
+      // Closing the cycle is always at least as good as extending it
+      if (wanted === current[start]) {
+        const count = 1 + maxCycles(mask & ~used);
+        if (count > best) {
+          best = count;
+          bestCycle = [...path];
+        }
+        return;
+      }
+
+      // Cells with the same (current, target) pair are interchangeable - try one of each
+      const tried = new Set<string>();
+      for (let i = start + 1; i < current.length; i++) {
+        if (!(mask & (1 << i)) || used & (1 << i)) continue;
+        if (current[i] !== wanted) continue;
+        const kind = target[i];
+        if (tried.has(kind)) continue;
+        tried.add(kind);
+
+        path.push(i);
+        extend(used | (1 << i));
+        path.pop();
+      }
+    };
+
+    extend(1 << start);
+
+    memo.set(mask, { count: best, cycle: bestCycle });
+    return best;
+  };
+
+  const fullMask = (1 << positions.length) - 1;
+  const cycleCount = maxCycles(fullMask);
+
+  // Step 3: Rebuild the chosen cycles and turn each into k - 1 swaps.
+  // Swapping cell i with the next cell in the cycle puts the right letter into i
+  // and passes the displaced letter along, so the final swap fixes both cells.
+  const moves: Swap[] = [];
+  let mask = fullMask;
+  while (mask !== 0) {
+    const cycle = memo.get(mask)?.cycle;
+    if (!cycle) break;
+    for (let k = 0; k < cycle.length - 1; k++) {
+      moves.push({ from: positions[cycle[k]], to: positions[cycle[k + 1]] });
+    }
+    for (const index of cycle) {
+      mask &= ~(1 << index);
+    }
+  }
+
+  return {
+    swaps: positions.length - cycleCount,
+    moves,
+  };
+};
+
+/**
+ * Suggest a swap that moves the grid towards the solution.
+ * Prefers a swap that puts two letters in place at once (two cells that hold
+ * each other's letters - always part of some optimal solution), otherwise
+ * returns the first swap of an optimal solution, which places at least one letter.
+ */
+export const findHint = (grid: Grid, solution: string[][]): Swap | null => {
+  const misplaced: Coords[] = [];
+  for (let r = 0; r < GRID_SIZE; r++) {
+    for (let c = 0; c < GRID_SIZE; c++) {
+      if (isValidCell(r, c) && grid[r][c].char !== solution[r][c]) {
+        misplaced.push({ row: r, col: c });
+      }
+    }
+  }
+
+  for (let i = 0; i < misplaced.length; i++) {
+    const a = misplaced[i];
+    for (let j = i + 1; j < misplaced.length; j++) {
+      const b = misplaced[j];
+      if (
+        grid[a.row][a.col].char === solution[b.row][b.col] &&
+        grid[b.row][b.col].char === solution[a.row][a.col]
+      ) {
+        return { from: a, to: b };
+      }
+    }
+  }
+
+  return solve(grid, solution)?.moves[0] ?? null;
+};
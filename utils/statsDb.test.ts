@@ -1,6 +1,37 @@
-import { describe, it, expect } from 'vitest';
-import { DEFAULT_STATS, getTodayDateString } from './statsDb';
-import { StatsDistribution } from '../types';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_STATS,
+  getTodayDateString,
+  getPreviousDateString,
+  updateStreak,
+  expireStreak,
+  computeStatsFromRecords,
+  isStatsConsistent,
+  getStats,
+  ensureConsistentStats,
+  rebuildStats,
+  hasPlayedPuzzle,
+  recordGameResult,
+  recordArchiveResult,
+  getArchiveRecords,
+  getAllGameRecords,
+  getGameRecordsBetween,
+  saveGameState,
+  loadGameState,
+  deleteGameState,
+  pruneGameStates,
+  moveGameToArchive,
+  loadArchiveGameState,
+  readAllStores,
+  updateAllStores,
+  SavedGameState,
+} from './statsDb';
+import { closeDB, createIndexedDBBackend, setBackend } from './db';
+import { StorageBackend, createLocalStorageBackend, createMemoryBackend } from './storageBackend';
+import { getPuzzleById } from './daily';
+import { GameRecord, GameStats, StatsDistribution } from '../types';
 
 describe('DEFAULT_STATS', () => {
   it('should have all required properties initialized to zero/null', () => {
@@ -226,6 +257,200 @@ describe('streak calculation logic', () => {
   });
 });
 
+describe('getTodayDateString - Amsterdam days', () => {
+  it('should switch days at Amsterdam midnight in winter (UTC+1)', () => {
+    expect(getTodayDateString(new Date('2026-01-16T22:59:59Z'))).toBe('2026-01-16');
+    expect(getTodayDateString(new Date('2026-01-16T23:00:00Z'))).toBe('2026-01-17');
+  });
+
+  it('should switch days at Amsterdam midnight in summer (UTC+2)', () => {
+    expect(getTodayDateString(new Date('2026-07-01T21:59:59Z'))).toBe('2026-07-01');
+    expect(getTodayDateString(new Date('2026-07-01T22:00:00Z'))).toBe('2026-07-02');
+  });
+
+  it('should handle the nights the clocks change', () => {
+    // Clocks go forward on March 29, 2026 and back on October 25, 2026
+    expect(getTodayDateString(new Date('2026-03-29T21:59:59Z'))).toBe('2026-03-29');
+    expect(getTodayDateString(new Date('2026-03-29T22:00:00Z'))).toBe('2026-03-30');
+    expect(getTodayDateString(new Date('2026-10-25T22:59:59Z'))).toBe('2026-10-25');
+    expect(getTodayDateString(new Date('2026-10-25T23:00:00Z'))).toBe('2026-10-26');
+  });
+
+  it('should roll over the year at Amsterdam midnight', () => {
+    expect(getTodayDateString(new Date('2026-12-31T22:59:59Z'))).toBe('2026-12-31');
+    expect(getTodayDateString(new Date('2026-12-31T23:00:00Z'))).toBe('2027-01-01');
+  });
+});
+
+describe('getPreviousDateString', () => {
+  it('should return the day before', () => {
+    expect(getPreviousDateString('2026-05-12')).toBe('2026-05-11');
+  });
+
+  it('should cross month and year boundaries', () => {
+    expect(getPreviousDateString('2026-03-01')).toBe('2026-02-28');
+    expect(getPreviousDateString('2028-03-01')).toBe('2028-02-29');
+    expect(getPreviousDateString('2027-01-01')).toBe('2026-12-31');
+  });
+
+  it('should not be shifted by DST changes', () => {
+    expect(getPreviousDateString('2026-03-30')).toBe('2026-03-29');
+    expect(getPreviousDateString('2026-03-29')).toBe('2026-03-28');
+    expect(getPreviousDateString('2026-10-26')).toBe('2026-10-25');
+    expect(getPreviousDateString('2026-10-25')).toBe('2026-10-24');
+  });
+});
+
+describe('updateStreak', () => {
+  const statsWith = (currentStreak: number, bestStreak: number, lastPlayedDate: string | null): GameStats => ({
+    ...DEFAULT_STATS,
+    currentStreak,
+    bestStreak,
+    lastPlayedDate,
+  });
+
+  it('should start a streak on the first win', () => {
+    expect(updateStreak(DEFAULT_STATS, true, '2026-05-12')).toEqual({ currentStreak: 1, bestStreak: 1 });
+  });
+
+  it('should extend the streak when yesterday was played', () => {
+    expect(updateStreak(statsWith(4, 6, '2026-05-11'), true, '2026-05-12')).toEqual({ currentStreak: 5, bestStreak: 6 });
+  });
+
+  it('should restart the streak after a missed day', () => {
+    expect(updateStreak(statsWith(4, 6, '2026-05-10'), true, '2026-05-12')).toEqual({ currentStreak: 1, bestStreak: 6 });
+  });
+
+  it('should restart the streak after a missed week', () => {
+    expect(updateStreak(statsWith(9, 9, '2026-05-01'), true, '2026-05-08')).toEqual({ currentStreak: 1, bestStreak: 9 });
+  });
+
+  it('should raise the best streak when it is beaten', () => {
+    expect(updateStreak(statsWith(6, 6, '2026-05-11'), true, '2026-05-12')).toEqual({ currentStreak: 7, bestStreak: 7 });
+  });
+
+  it('should reset the streak on a loss and keep the best', () => {
+    expect(updateStreak(statsWith(4, 6, '2026-05-11'), false, '2026-05-12')).toEqual({ currentStreak: 0, bestStreak: 6 });
+  });
+
+  it('should continue across the spring and autumn DST changes', () => {
+    expect(updateStreak(statsWith(3, 3, '2026-03-29'), true, '2026-03-30').currentStreak).toBe(4);
+    expect(updateStreak(statsWith(3, 3, '2026-10-25'), true, '2026-10-26').currentStreak).toBe(4);
+  });
+
+  it('should continue across a year change', () => {
+    expect(updateStreak(statsWith(10, 10, '2026-12-31'), true, '2027-01-01')).toEqual({ currentStreak: 11, bestStreak: 11 });
+  });
+
+  it('should continue across a leap day', () => {
+    expect(updateStreak(statsWith(2, 2, '2028-02-29'), true, '2028-03-01').currentStreak).toBe(3);
+    expect(updateStreak(statsWith(2, 2, '2028-02-28'), true, '2028-03-01').currentStreak).toBe(1);
+  });
+});
+
+describe('expireStreak', () => {
+  const stats: GameStats = { ...DEFAULT_STATS, currentStreak: 5, bestStreak: 8, lastPlayedDate: '2026-12-31' };
+
+  it('should keep the streak if the last game was today or yesterday', () => {
+    expect(expireStreak(stats, '2026-12-31').currentStreak).toBe(5);
+    expect(expireStreak(stats, '2027-01-01').currentStreak).toBe(5);
+  });
+
+  it('should reset the streak once a day has been missed', () => {
+    const expired = expireStreak(stats, '2027-01-02');
+    expect(expired.currentStreak).toBe(0);
+    expect(expired.bestStreak).toBe(8);
+    expect(expired.lastPlayedDate).toBe('2026-12-31');
+  });
+
+  it('should leave stats without a streak untouched', () => {
+    expect(expireStreak(DEFAULT_STATS, '2026-05-12')).toBe(DEFAULT_STATS);
+  });
+});
+
+describe('computeStatsFromRecords', () => {
+  const records: GameRecord[] = [
+    { puzzleId: 3, stars: 4, date: '2026-01-19' },
+    { puzzleId: 1, stars: 5, date: '2026-01-17' },
+    { puzzleId: 2, stars: -1, date: '2026-01-18' },
+    { puzzleId: 5, stars: 2, date: '2026-01-21' },
+    { puzzleId: 6, stars: 5, date: '2026-01-22' },
+  ];
+
+  it('should return default stats without records', () => {
+    expect(computeStatsFromRecords([])).toEqual(DEFAULT_STATS);
+  });
+
+  it('should add up played games, stars and the distribution', () => {
+    const stats = computeStatsFromRecords(records);
+
+    expect(stats.played).toBe(5);
+    expect(stats.totalStars).toBe(16);
+    expect(stats.distribution).toEqual({
+      failed: 1, stars0: 0, stars1: 0, stars2: 1, stars3: 0, stars4: 1, stars5: 2,
+    });
+    expect(stats.lastPlayedDate).toBe('2026-01-22');
+  });
+
+  it('should replay streaks in date order regardless of record order', () => {
+    const stats = computeStatsFromRecords(records);
+
+    // Win, loss, win, (missed day), win, win
+    expect(stats.currentStreak).toBe(2);
+    expect(stats.bestStreak).toBe(2);
+  });
+
+  it('should count a zero-star win as a win', () => {
+    const stats = computeStatsFromRecords([{ puzzleId: 1, stars: 0, date: '2026-01-17' }]);
+
+    expect(stats.distribution.stars0).toBe(1);
+    expect(stats.currentStreak).toBe(1);
+  });
+});
+
+describe('isStatsConsistent', () => {
+  const records: GameRecord[] = [
+    { puzzleId: 1, stars: 5, date: '2026-01-17' },
+    { puzzleId: 2, stars: 3, date: '2026-01-18' },
+  ];
+
+  it('should accept stats rebuilt from the same records', () => {
+    expect(isStatsConsistent(computeStatsFromRecords(records), records)).toBe(true);
+  });
+
+  it('should accept missing stats only when there are no records', () => {
+    expect(isStatsConsistent(undefined, [])).toBe(true);
+    expect(isStatsConsistent(undefined, records)).toBe(false);
+  });
+
+  it('should reject a wrong played count or star total', () => {
+    const stats = computeStatsFromRecords(records);
+    expect(isStatsConsistent({ ...stats, played: 3 }, records)).toBe(false);
+    expect(isStatsConsistent({ ...stats, totalStars: 99 }, records)).toBe(false);
+  });
+
+  it('should reject a tampered distribution', () => {
+    const stats = computeStatsFromRecords(records);
+    expect(isStatsConsistent({ ...stats, distribution: { ...stats.distribution, stars5: 7 } }, records)).toBe(false);
+  });
+
+  it('should accept streaks counted without regard to missed days', () => {
+    // Stats kept before streaks broke on missed days
+    const gapRecords: GameRecord[] = [
+      { puzzleId: 1, stars: 5, date: '2026-01-17' },
+      { puzzleId: 8, stars: 5, date: '2026-01-24' },
+    ];
+    const stats = { ...computeStatsFromRecords(gapRecords), currentStreak: 2, bestStreak: 2 };
+    expect(isStatsConsistent(stats, gapRecords)).toBe(true);
+  });
+
+  it('should reject stats missing their distribution', () => {
+    const stats = computeStatsFromRecords(records) as Partial<GameStats>;
+    delete stats.distribution;
+    expect(isStatsConsistent(stats as GameStats, records)).toBe(false);
+  });
+});
+
 describe('star calculation logic', () => {
   // Testing the star calculation based on swaps remaining
   // Game has 15 total swaps, stars earned = swaps remaining (capped at 5)
@@ -263,3 +488,227 @@ describe('star calculation logic', () => {
     expect(calculateStars(-5, true)).toBe(0);
   });
 });
+
+// ============ STORAGE (every backend) ============
+
+// Minimal localStorage stand-in
+const fakeLocalStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+  };
+};
+
+const BACKENDS: [string, () => StorageBackend][] = [
+  ['IndexedDB', () => {
+    globalThis.indexedDB = new IDBFactory();
+    return createIndexedDBBackend();
+  }],
+  ['localStorage', () => createLocalStorageBackend(fakeLocalStorage())],
+  ['memory', () => createMemoryBackend()],
+];
+
+describe.each(BACKENDS)('storage on %s', (_name, createBackend) => {
+  const savedState = (puzzleId: number, overrides: Partial<SavedGameState> = {}): SavedGameState => {
+    const puzzle = getPuzzleById(puzzleId);
+    return {
+      puzzleId,
+      grid: puzzle.initialGrid,
+      swaps: 15,
+      status: 'PLAYING',
+      ...overrides,
+    };
+  };
+
+  beforeEach(async () => {
+    await closeDB();
+    setBackend(createBackend());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start with default stats and no records', async () => {
+    expect(await getStats()).toEqual(DEFAULT_STATS);
+    expect(await getAllGameRecords()).toEqual([]);
+    expect(await hasPlayedPuzzle(1)).toBe(false);
+  });
+
+  it('should record results and keep a streak', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await recordGameResult(2, true, 3, '2026-01-18', 1);
+    const stats = await recordGameResult(3, true, 4, '2026-01-19');
+
+    expect(stats).toMatchObject({ played: 3, totalStars: 12, currentStreak: 3, bestStreak: 3 });
+    expect(await getStats()).toEqual(stats);
+    expect(await hasPlayedPuzzle(2)).toBe(true);
+    expect((await getAllGameRecords()).map(r => r.puzzleId)).toEqual([1, 2, 3]);
+  });
+
+  it('should join the streaks around a day recorded after a later one', async () => {
+    // Yesterday's game finished just after midnight, once today's was recorded in another tab
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await recordGameResult(3, true, 4, '2026-01-19');
+    const stats = await recordGameResult(2, true, 3, '2026-01-18');
+
+    expect(stats).toMatchObject({ played: 3, totalStars: 12, currentStreak: 3, bestStreak: 3, lastPlayedDate: '2026-01-19' });
+    expect(await getStats()).toEqual(stats);
+  });
+
+  it('should keep the first result of a puzzle', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await recordGameResult(2, false, 0, '2026-01-18');
+    const again = await recordGameResult(1, true, 1, '2026-01-17');
+
+    expect(again).toEqual(await getStats());
+    expect(again).toMatchObject({ played: 2, totalStars: 5, currentStreak: 0, bestStreak: 1 });
+  });
+
+  it('should count a puzzle once even when recorded twice at the same time', async () => {
+    await Promise.all([
+      recordGameResult(1, true, 5, '2026-01-17'),
+      recordGameResult(1, true, 5, '2026-01-17'),
+    ]);
+
+    expect(await getAllGameRecords()).toHaveLength(1);
+    expect((await getStats()).played).toBe(1);
+  });
+
+  it('should keep the first of two results recorded by different tabs', async () => {
+    // Two tabs finishing the same puzzle differently
+    await Promise.all([
+      recordGameResult(1, true, 5, '2026-01-17'),
+      recordGameResult(1, false, 0, '2026-01-17'),
+    ]);
+
+    expect(await getAllGameRecords()).toMatchObject([{ puzzleId: 1, stars: 5 }]);
+    expect(await getStats()).toMatchObject({ played: 1, totalStars: 5 });
+  });
+
+  it('should find records by date', async () => {
+    await recordGameResult(3, true, 4, '2026-01-19');
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await recordGameResult(2, true, 3, '2026-01-18');
+
+    const found = await getGameRecordsBetween('2026-01-18', '2026-01-19');
+
+    expect(found.map(r => r.date)).toEqual(['2026-01-18', '2026-01-19']);
+  });
+
+  it('should rebuild stats that drifted from the records', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await updateAllStores(current => ({ ...current, stats: { ...DEFAULT_STATS, played: 7 } }));
+
+    expect((await ensureConsistentStats()).played).toBe(1);
+    expect((await rebuildStats()).totalStars).toBe(5);
+  });
+
+  it('should keep a longer best streak when rebuilding stats', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await updateAllStores(current => ({ ...current, stats: { ...current.stats!, played: 7, bestStreak: 12 } }));
+
+    expect(await ensureConsistentStats()).toMatchObject({ played: 1, bestStreak: 12 });
+  });
+
+  it('should leave streaks counted under earlier rules alone', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await recordGameResult(3, true, 5, '2026-01-19');
+    await updateAllStores(current => ({ ...current, stats: { ...current.stats!, currentStreak: 2, bestStreak: 2 } }));
+
+    expect((await ensureConsistentStats()).bestStreak).toBe(2);
+  });
+
+  it('should save, load and delete game states', async () => {
+    await saveGameState(savedState(4));
+    const loaded = await loadGameState(4);
+
+    expect(loaded).toMatchObject(savedState(4));
+    expect(loaded?.updatedAt).toBe(Date.now());
+
+    await deleteGameState(4);
+    expect(await loadGameState(4)).toBeNull();
+  });
+
+  it('should keep the time of the last move a game was saved with', async () => {
+    await saveGameState(savedState(4, { updatedAt: 1234 }));
+    expect((await loadGameState(4))?.updatedAt).toBe(1234);
+  });
+
+  it('should prune earlier days\' games but never today\'s', async () => {
+    await recordGameResult(2, true, 4, '2026-01-18');
+    await saveGameState(savedState(1));
+    await saveGameState(savedState(2, { status: 'WON', swaps: 4 }));
+    await saveGameState(savedState(3));
+
+    await pruneGameStates(3);
+
+    expect(await loadGameState(1)).toBeNull();
+    expect(await loadArchiveGameState(1)).toMatchObject(savedState(1));
+    expect(await loadGameState(2)).toBeNull();
+    expect(await loadArchiveGameState(2)).toBeNull();
+    expect(await loadGameState(3)).toMatchObject(savedState(3));
+    const [record] = await getAllGameRecords();
+    expect(record.finalGrid).toHaveLength(21);
+    expect(record.moves).toEqual([]);
+  });
+
+  it('should move a game left on the board past midnight into the archive', async () => {
+    await saveGameState(savedState(2, { swaps: 9 }));
+
+    await moveGameToArchive(2);
+    await moveGameToArchive(7); // Nothing saved: nothing to move
+
+    expect(await loadGameState(2)).toBeNull();
+    expect(await loadArchiveGameState(2)).toMatchObject(savedState(2, { swaps: 9 }));
+    expect(await loadArchiveGameState(7)).toBeNull();
+  });
+
+  it('should hand out copies, not the stored values', async () => {
+    await saveGameState(savedState(4));
+    const loaded = await loadGameState(4);
+    loaded!.swaps = 0;
+
+    expect((await loadGameState(4))?.swaps).toBe(15);
+  });
+
+  it('should keep archive results apart from daily stats', async () => {
+    const first = await recordArchiveResult(4, true, 4, '2026-03-01');
+    const second = await recordArchiveResult(4, true, 1, '2026-03-02');
+
+    expect(second).toEqual(first);
+    expect(await getArchiveRecords()).toEqual([first]);
+    expect(await getStats()).toEqual(DEFAULT_STATS);
+  });
+
+  it('should read and update every store at once', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+    await saveGameState(savedState(2));
+
+    const written = await updateAllStores(current => ({
+      ...current,
+      gameRecords: [...current.gameRecords, { puzzleId: 2, stars: 2, date: '2026-01-18' }],
+    }));
+    const snapshot = await readAllStores();
+
+    expect(snapshot).toEqual(written);
+    expect(snapshot.gameRecords.map(r => r.puzzleId)).toEqual([1, 2]);
+    expect(snapshot.gameState.map(s => s.puzzleId)).toEqual([2]);
+  });
+
+  it('should write nothing when an update fails', async () => {
+    await recordGameResult(1, true, 5, '2026-01-17');
+
+    await expect(updateAllStores(current => {
+      current.gameRecords.push({ puzzleId: 2, stars: 2, date: '2026-01-18' });
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+
+    expect(await getAllGameRecords()).toHaveLength(1);
+  });
+});
@@ -4,15 +4,24 @@
  * Store: gameRecords - individual game records
  * Store: stats - aggregated statistics
  * Store: gameState - current game state for persistence
+ * Store: archiveRecords - results of past puzzles played from the archive
+ * Store: archiveGameState - in-progress archive games
+ * Schema versions and migrations live in migrations.ts; the storage backend
+ * (IndexedDB, or a localStorage/memory fallback) is picked in db.ts
  */
 
-import { GameStats, GameRecord, StatsDistribution, Grid, GameStatus } from '../types';
+import { GameStats, GameRecord, StatsDistribution, Grid, GameStatus, Swap, MoveRecord } from '../types';
+import {
+  RECORDS_STORE,
+  STATS_STORE,
+  GAME_STATE_STORE,
+  ARCHIVE_RECORDS_STORE,
+  ARCHIVE_STATE_STORE,
+} from './migrations';
+import { Repository, createRepository, withTransaction } from './db';
+import { StoreTransaction } from './storageBackend';
+import { planPrune } from './retention';
 
-const DB_NAME = 'mkwaffle-stats';
-const DB_VERSION = 2; // Bumped for new gameState store
-const RECORDS_STORE = 'gameRecords';
-const STATS_STORE = 'stats';
-const GAME_STATE_STORE = 'gameState';
 const STATS_KEY = 'userStats';
 
 // Saved game state interface
@@ -20,8 +29,12 @@ export interface SavedGameState {
   puzzleId: number;
   grid: Grid;
   swaps: number;
-  status: GameStatus;
-  solution: string[][];
+  status: GameStatus; // The solution isn't stored; it is regenerated from puzzleId
+  history?: Swap[]; // Swaps that can still be undone (missing in states saved before undo)
+  moves?: MoveRecord[]; // Every swap and undo, in order (missing in states saved before the move log)
+  hintsUsed?: number;
+  hint?: Swap | null; // Suggested swap the player has paid for but not made yet
+  updatedAt?: number; // ms since epoch of the last move, or of the save (missing in older states)
 }
 
 // Default stats for new users
@@ -42,86 +55,71 @@ export const DEFAULT_STATS: GameStats = {
   lastPlayedDate: null,
 };
 
-// Open IndexedDB connection
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// Repositories over the stores; all reads and writes go through these
+const records = createRepository<GameRecord, number>(RECORDS_STORE);
+const statsStore = createRepository<GameStats, string>(STATS_STORE);
+const gameStates = createRepository<SavedGameState, number>(GAME_STATE_STORE);
+const archiveRecords = createRepository<GameRecord, number>(ARCHIVE_RECORDS_STORE);
+const archiveStates = createRepository<SavedGameState, number>(ARCHIVE_STATE_STORE);
 
-    request.onerror = () => {
-      console.error('Failed to open IndexedDB:', request.error);
-      reject(request.error);
-    };
+// Get current stats
+export async function getStats(): Promise<GameStats> {
+  try {
+    const stats = await statsStore.get(STATS_KEY);
+    return expireStreak(stats || DEFAULT_STATS, getTodayDateString());
+  } catch (error) {
+    console.error('Error getting stats:', error);
+    return DEFAULT_STATS;
+  }
+}
 
-    request.onsuccess = () => {
-      resolve(request.result);
-    };
+// Rebuild the stats document from the game records, always
+export async function rebuildStats(): Promise<GameStats> {
+  return reconcileStats(true);
+}
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+// Rebuild the stats document only if it doesn't match the game records (run on startup)
+export async function ensureConsistentStats(): Promise<GameStats> {
+  return reconcileStats(false);
+}
 
-      // Create game records store (keyed by puzzleId)
-      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
-        const recordsStore = db.createObjectStore(RECORDS_STORE, { keyPath: 'puzzleId' });
-        recordsStore.createIndex('date', 'date', { unique: false });
-      }
+// Read stats and records, and rewrite the stats, in one transaction so no game is recorded in between
+async function reconcileStats(force: boolean): Promise<GameStats> {
+  try {
+    const result = await withTransaction([RECORDS_STORE, STATS_STORE], 'readwrite', async transaction => {
+      const stats = statsStore.within(transaction);
+      const stored = await stats.get(STATS_KEY);
+      const list = await records.within(transaction).getAll();
 
-      // Create stats store (single document)
-      if (!db.objectStoreNames.contains(STATS_STORE)) {
-        db.createObjectStore(STATS_STORE);
+      if (!force && isStatsConsistent(stored, list)) {
+        return stored || DEFAULT_STATS;
       }
 
-      // Create game state store (keyed by puzzleId)
-      if (!db.objectStoreNames.contains(GAME_STATE_STORE)) {
-        db.createObjectStore(GAME_STATE_STORE, { keyPath: 'puzzleId' });
+      if (!force) {
+        console.warn('Stored stats do not match game records - rebuilding');
       }
-    };
-  });
-}
-
-// Get current stats
-export async function getStats(): Promise<GameStats> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STATS_STORE, 'readonly');
-      const store = transaction.objectStore(STATS_STORE);
-      const request = store.get(STATS_KEY);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        db.close();
-        resolve(request.result || DEFAULT_STATS);
-      };
+      const rebuilt = withBestStreak(computeStatsFromRecords(list), stored?.bestStreak ?? 0);
+      await stats.put(rebuilt, STATS_KEY);
+      return rebuilt;
     });
+    return expireStreak(result, getTodayDateString());
   } catch (error) {
-    console.error('Error getting stats:', error);
-    return DEFAULT_STATS;
+    console.error('Error rebuilding stats:', error);
+    return getStats();
   }
 }
 
+// Stats recomputed from the records, keeping a longer best streak from before: streaks
+// counted under earlier rules may be longer than the records now add up to, and a best
+// streak the player has seen is never taken away
+export function withBestStreak(computed: GameStats, bestStreak: number): GameStats {
+  return { ...computed, bestStreak: Math.max(computed.bestStreak, bestStreak) };
+}
+
 // Check if a puzzle was already played
 export async function hasPlayedPuzzle(puzzleId: number): Promise<boolean> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(RECORDS_STORE, 'readonly');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.get(puzzleId);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        db.close();
-        resolve(!!request.result);
-      };
-    });
+    return !!(await records.get(puzzleId));
   } catch (error) {
     console.error('Error checking played puzzle:', error);
     return false;
@@ -131,88 +129,130 @@ export async function hasPlayedPuzzle(puzzleId: number): Promise<boolean> {
 // Get record for a specific puzzle
 export async function getGameRecord(puzzleId: number): Promise<GameRecord | null> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(RECORDS_STORE, 'readonly');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.get(puzzleId);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
-
-      request.onsuccess = () => {
-        db.close();
-        resolve(request.result || null);
-      };
-    });
+    return await records.get(puzzleId);
   } catch (error) {
     console.error('Error getting game record:', error);
     return null;
   }
 }
 
-// Save a game result and update stats
+// Save a game result and update stats - checking, recording and counting in one transaction
 export async function recordGameResult(
   puzzleId: number,
   won: boolean,
   starsEarned: number, // 0-5 for wins
-  dateString: string   // YYYY-MM-DD format
+  dateString: string,  // YYYY-MM-DD format
+  hintsUsed = 0
 ): Promise<GameStats> {
-  // First check if already recorded (before opening DB for write)
-  const existingRecord = await getGameRecord(puzzleId);
-  if (existingRecord) {
-    // Already played this puzzle, return current stats
-    return getStats();
-  }
-
-  // Get current stats
-  const currentStats = await getStats();
-
-  const db = await openDB();
-
-  // Create new record
   const record: GameRecord = {
     puzzleId,
     stars: won ? starsEarned : -1, // -1 indicates a loss
     date: dateString,
+    hintsUsed,
+    recordedAt: Date.now(),
   };
 
-  // Update stats
-  const newStats: GameStats = {
-    played: currentStats.played + 1,
-    totalStars: currentStats.totalStars + (won ? starsEarned : 0),
-    currentStreak: won ? currentStats.currentStreak + 1 : 0,
-    bestStreak: won
-      ? Math.max(currentStats.bestStreak, currentStats.currentStreak + 1)
-      : currentStats.bestStreak,
-    distribution: updateDistribution(currentStats.distribution, won, starsEarned),
-    lastPlayedDate: dateString,
-  };
+  return withTransaction([RECORDS_STORE, STATS_STORE], 'readwrite', async transaction => {
+    const recordsTx = records.within(transaction);
+    const statsTx = statsStore.within(transaction);
+    const existingRecord = await recordsTx.get(puzzleId);
+    const currentStats = (await statsTx.get(STATS_KEY)) || DEFAULT_STATS;
 
-  // Save record and stats in a transaction
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction([RECORDS_STORE, STATS_STORE], 'readwrite');
+    if (existingRecord) {
+      // Already played this puzzle, return current stats
+      return expireStreak(currentStats, getTodayDateString());
+    }
 
-    transaction.onerror = () => {
-      db.close();
-      reject(transaction.error);
-    };
+    // A day recorded after a later one (a game finished just after midnight
+    // while another tab played the new puzzle) can join the streaks on both
+    // sides of it, so every record is replayed
+    const isLate = currentStats.lastPlayedDate !== null && dateString < currentStats.lastPlayedDate;
+    const newStats: GameStats = isLate
+      ? withBestStreak(computeStatsFromRecords([...(await recordsTx.getAll()), record]), currentStats.bestStreak)
+      : {
+        played: currentStats.played + 1,
+        totalStars: currentStats.totalStars + (won ? starsEarned : 0),
+        ...updateStreak(currentStats, won, dateString),
+        distribution: updateDistribution(currentStats.distribution, won, starsEarned),
+        lastPlayedDate: dateString,
+      };
 
-    transaction.oncomplete = () => {
-      db.close();
-      resolve(newStats);
-    };
+    await recordsTx.put(record);
+    await statsTx.put(newStats, STATS_KEY);
+    return newStats;
+  });
+}
 
-    // Save record
-    const recordsStore = transaction.objectStore(RECORDS_STORE);
-    recordsStore.put(record);
+// Previous calendar day of a YYYY-MM-DD date (plain date math, so DST can't shift it)
+export function getPreviousDateString(dateString: string): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+}
 
-    // Save stats
-    const statsStore = transaction.objectStore(STATS_STORE);
-    statsStore.put(newStats, STATS_KEY);
-  });
+// The streak is still alive if the last game was played today or yesterday
+function isStreakAlive(lastPlayedDate: string | null, dateString: string): boolean {
+  return lastPlayedDate === dateString || lastPlayedDate === getPreviousDateString(dateString);
+}
+
+// Streaks after a game played on `dateString`: a win extends the streak only if the previous day was played
+export function updateStreak(
+  stats: GameStats,
+  won: boolean,
+  dateString: string
+): Pick<GameStats, 'currentStreak' | 'bestStreak'> {
+  if (!won) {
+    return { currentStreak: 0, bestStreak: stats.bestStreak };
+  }
+  const previous = isStreakAlive(stats.lastPlayedDate, dateString) ? stats.currentStreak : 0;
+  return {
+    currentStreak: previous + 1,
+    bestStreak: Math.max(stats.bestStreak, previous + 1),
+  };
+}
+
+// Stats as seen on `today`: a streak whose last game was before yesterday is already broken
+export function expireStreak(stats: GameStats, today: string): GameStats {
+  if (stats.currentStreak === 0 || isStreakAlive(stats.lastPlayedDate, today)) {
+    return stats;
+  }
+  return { ...stats, currentStreak: 0 };
+}
+
+// Recompute all aggregate stats from the game records, replaying them in date order
+export function computeStatsFromRecords(records: GameRecord[]): GameStats {
+  const sorted = [...records].sort((a, b) =>
+    a.date === b.date ? a.puzzleId - b.puzzleId : a.date < b.date ? -1 : 1
+  );
+
+  let stats: GameStats = DEFAULT_STATS;
+  for (const record of sorted) {
+    const won = record.stars >= 0;
+    const starsEarned = won ? record.stars : 0;
+    stats = {
+      played: stats.played + 1,
+      totalStars: stats.totalStars + starsEarned,
+      ...updateStreak(stats, won, record.date),
+      distribution: updateDistribution(stats.distribution, won, starsEarned),
+      lastPlayedDate: record.date,
+    };
+  }
+  return stats;
+}
+
+// Whether a stored stats document matches what its game records add up to.
+// Streaks aren't compared: they depend on the streak rules they were counted
+// under, and a game lost between stats and records already shows in the counts.
+export function isStatsConsistent(stats: GameStats | null | undefined, records: GameRecord[]): boolean {
+  const expected = computeStatsFromRecords(records);
+  if (!stats || !stats.distribution) return records.length === 0;
+
+  const distributionKeys = Object.keys(expected.distribution) as (keyof StatsDistribution)[];
+  return (
+    stats.played === expected.played &&
+    stats.totalStars === expected.totalStars &&
+    stats.lastPlayedDate === expected.lastPlayedDate &&
+    distributionKeys.every(key => stats.distribution[key] === expected.distribution[key])
+  );
 }
 
 // Helper to update distribution
@@ -252,8 +292,7 @@ function updateDistribution(
 }
 
 // Get today's date string in YYYY-MM-DD format (Amsterdam timezone)
-export function getTodayDateString(): string {
-  const now = new Date();
+export function getTodayDateString(now: Date = new Date()): string {
   const options: Intl.DateTimeFormatOptions = {
     timeZone: 'Europe/Amsterdam',
     year: 'numeric',
@@ -266,25 +305,19 @@ export function getTodayDateString(): string {
 
 // ============ GAME STATE PERSISTENCE ============
 
-// Save current game state
+// Save current game state, dated to its last move if it carries one
 export async function saveGameState(state: SavedGameState): Promise<void> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(GAME_STATE_STORE, 'readwrite');
-      const store = transaction.objectStore(GAME_STATE_STORE);
-      const request = store.put(state);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
+    await gameStates.put({ ...state, updatedAt: state.updatedAt ?? Date.now() });
+  } catch (error) {
+    console.error('Error saving game state:', error);
+  }
+}
 
-      request.onsuccess = () => {
-        db.close();
-        resolve();
-      };
-    });
+// Save current archive game state, dated like saveGameState
+export async function saveArchiveGameState(state: SavedGameState): Promise<void> {
+  try {
+    await archiveStates.put({ ...state, updatedAt: state.updatedAt ?? Date.now() });
   } catch (error) {
     console.error('Error saving game state:', error);
   }
@@ -292,23 +325,17 @@ export async function saveGameState(state: SavedGameState): Promise<void> {
 
 // Load game state for a specific puzzle
 export async function loadGameState(puzzleId: number): Promise<SavedGameState | null> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(GAME_STATE_STORE, 'readonly');
-      const store = transaction.objectStore(GAME_STATE_STORE);
-      const request = store.get(puzzleId);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
+  return getGameState(gameStates, puzzleId);
+}
 
-      request.onsuccess = () => {
-        db.close();
-        resolve(request.result || null);
-      };
-    });
+// Load archive game state for a specific puzzle
+export async function loadArchiveGameState(puzzleId: number): Promise<SavedGameState | null> {
+  return getGameState(archiveStates, puzzleId);
+}
+
+async function getGameState(repository: Repository<SavedGameState, number>, puzzleId: number): Promise<SavedGameState | null> {
+  try {
+    return await repository.get(puzzleId);
   } catch (error) {
     console.error('Error loading game state:', error);
     return null;
@@ -318,23 +345,155 @@ export async function loadGameState(puzzleId: number): Promise<SavedGameState |
 // Delete game state for a specific puzzle (cleanup after game ends)
 export async function deleteGameState(puzzleId: number): Promise<void> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(GAME_STATE_STORE, 'readwrite');
-      const store = transaction.objectStore(GAME_STATE_STORE);
-      const request = store.delete(puzzleId);
-
-      request.onerror = () => {
-        db.close();
-        reject(request.error);
-      };
+    await gameStates.delete(puzzleId);
+  } catch (error) {
+    console.error('Error deleting game state:', error);
+  }
+}
 
-      request.onsuccess = () => {
-        db.close();
-        resolve();
-      };
+// Drop saved daily games that are no longer needed, keeping their summary in the
+// game records and moving unfinished ones to the archive (see retention.ts);
+// today's game is never touched
+export async function pruneGameStates(todayPuzzleId: number): Promise<void> {
+  try {
+    await withTransaction([GAME_STATE_STORE, RECORDS_STORE, ARCHIVE_STATE_STORE], 'readwrite', async transaction => {
+      const states = gameStates.within(transaction);
+      const recordsTx = records.within(transaction);
+      const archiveTx = archiveStates.within(transaction);
+      const plan = planPrune(await states.getAll(), await recordsTx.getAll(), todayPuzzleId);
+      await Promise.all([
+        ...plan.records.map(record => recordsTx.put(record)),
+        ...plan.archives.map(state => archiveTx.put({ ...state, updatedAt: Date.now() })),
+        ...plan.deletes.map(puzzleId => states.delete(puzzleId)),
+      ]);
     });
   } catch (error) {
-    console.error('Error deleting game state:', error);
+    console.error('Error pruning game states:', error);
   }
 }
+
+// ============ ARCHIVE ============
+
+// Get all daily game records
+export async function getAllGameRecords(): Promise<GameRecord[]> {
+  return getAllRecords(records);
+}
+
+// Get all archive game records
+export async function getArchiveRecords(): Promise<GameRecord[]> {
+  return getAllRecords(archiveRecords);
+}
+
+async function getAllRecords(repository: Repository<GameRecord, number>): Promise<GameRecord[]> {
+  try {
+    return await repository.getAll();
+  } catch (error) {
+    console.error('Error getting game records:', error);
+    return [];
+  }
+}
+
+// Save an archive game result (does not touch stats or streaks)
+export async function recordArchiveResult(
+  puzzleId: number,
+  won: boolean,
+  starsEarned: number,
+  dateString: string,
+  hintsUsed = 0
+): Promise<GameRecord> {
+  const record: GameRecord = {
+    puzzleId,
+    stars: won ? starsEarned : -1, // -1 indicates a loss
+    date: dateString,
+    hintsUsed,
+    recordedAt: Date.now(),
+  };
+
+  return withTransaction([ARCHIVE_RECORDS_STORE], 'readwrite', async transaction => {
+    const store = archiveRecords.within(transaction);
+    // Keep the first result, like daily records
+    const existing = await store.get(puzzleId);
+    if (existing) return existing;
+    await store.put(record);
+    return record;
+  });
+}
+
+// Move a daily game that was still on the board when its day ended into the
+// archive, where it can be finished without counting as a later day's game
+export async function moveGameToArchive(puzzleId: number): Promise<void> {
+  try {
+    await withTransaction([GAME_STATE_STORE, ARCHIVE_STATE_STORE], 'readwrite', async transaction => {
+      const states = gameStates.within(transaction);
+      const state = await states.get(puzzleId);
+      if (!state) return;
+      await archiveStates.within(transaction).put({ ...state, updatedAt: Date.now() });
+      await states.delete(puzzleId);
+    });
+  } catch (error) {
+    console.error('Error archiving game state:', error);
+  }
+}
+
+// ============ CALENDAR ============
+
+// Daily game records played between two dates (YYYY-MM-DD, inclusive), via the date index
+export async function getGameRecordsBetween(startDate: string, endDate: string): Promise<GameRecord[]> {
+  try {
+    return await records.getAllByIndex('date', startDate, endDate);
+  } catch (error) {
+    console.error('Error getting game records by date:', error);
+    return [];
+  }
+}
+
+// ============ EXPORT / IMPORT ============
+
+// Contents of every store, for backups
+export interface StoreSnapshot {
+  gameRecords: GameRecord[];
+  stats: GameStats | null;
+  gameState: SavedGameState[];
+  archiveRecords: GameRecord[];
+  archiveGameState: SavedGameState[];
+}
+
+const SNAPSHOT_STORES = [RECORDS_STORE, STATS_STORE, GAME_STATE_STORE, ARCHIVE_RECORDS_STORE, ARCHIVE_STATE_STORE];
+
+// Read every store within `transaction`
+async function readSnapshot(transaction: StoreTransaction): Promise<StoreSnapshot> {
+  const [gameRecords, stats, gameState, archive, archiveGameState] = await Promise.all([
+    records.within(transaction).getAll(),
+    statsStore.within(transaction).get(STATS_KEY),
+    gameStates.within(transaction).getAll(),
+    archiveRecords.within(transaction).getAll(),
+    archiveStates.within(transaction).getAll(),
+  ]);
+  return { gameRecords, stats, gameState, archiveRecords: archive, archiveGameState };
+}
+
+// Read every store at once
+export async function readAllStores(): Promise<StoreSnapshot> {
+  return withTransaction(SNAPSHOT_STORES, 'readonly', readSnapshot);
+}
+
+/**
+ * Read every store, let `update` compute new contents, and write them back -
+ * all in one transaction, so a game finished meanwhile can't be lost.
+ * Entries are put, never deleted. Resolves with what was written.
+ */
+export async function updateAllStores(update: (current: StoreSnapshot) => StoreSnapshot): Promise<StoreSnapshot> {
+  return withTransaction(SNAPSHOT_STORES, 'readwrite', async transaction => {
+    const next = update(await readSnapshot(transaction));
+    const putAll = <T>(repository: Repository<T, number>, values: T[]) =>
+      values.map(value => repository.within(transaction).put(value));
+    await Promise.all([
+      ...putAll(records, next.gameRecords),
+      ...putAll(gameStates, next.gameState),
+      ...putAll(archiveRecords, next.archiveRecords),
+      ...putAll(archiveStates, next.archiveGameState),
+      ...(next.stats ? [statsStore.within(transaction).put(next.stats, STATS_KEY)] : []),
+    ]);
+    return next;
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * Where the game's data lives. IndexedDB is the real thing (see db.ts); when
+ * a browser refuses it - Firefox private windows, some embedded webviews -
+ * the same stores are kept in localStorage, or failing that only in memory.
+ *
+ * The fallbacks keep each store as one JSON entry in the current schema
+ * (STORE_SCHEMA), next to the schema version of their entries. They run the
+ * entry transforms of newer migrations before their first transaction.
+ */
+
+import { MIGRATIONS, Migration, STORE_SCHEMA, latestVersion } from './migrations';
+
+export type StorageKind = 'indexeddb' | 'localstorage' | 'memory';
+
+// Operations available inside a transaction
+export interface StoreTransaction {
+  get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined>;
+  getAll<T>(storeName: string): Promise<T[]>;
+  // Entries whose index value lies between `lower` and `upper`, inclusive
+  getAllByIndex<T>(storeName: string, indexName: string, lower: IDBValidKey, upper: IDBValidKey): Promise<T[]>;
+  put<T>(storeName: string, value: T, key?: IDBValidKey): Promise<void>;
+  delete(storeName: string, key: IDBValidKey): Promise<void>;
+}
+
+export interface StorageBackend {
+  kind: StorageKind;
+  /**
+   * Run `work` atomically over `storeNames` and resolve with its result once
+   * it is stored. If `work` throws, nothing it wrote is kept.
+   */
+  transaction<R>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: StoreTransaction) => Promise<R>
+  ): Promise<R>;
+}
+
+// ============ KEY-VALUE BACKENDS ============
+
+type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Kept out of the mkwaffle- prefix so backups don't mistake stores for preferences
+const STORE_KEY_PREFIX = 'mkwaffle.db.';
+const VERSION_KEY = `${STORE_KEY_PREFIX}version`;
+// Stores written before the fallbacks kept a version were at schema version 3
+const UNVERSIONED_STORES_VERSION = 3;
+
+type Entries = Map<IDBValidKey, unknown>;
+
+const loadEntries = (storage: KeyValueStorage, storeName: string): Entries => {
+  const stored = storage.getItem(STORE_KEY_PREFIX + storeName);
+  return new Map(stored ? (JSON.parse(stored) as [IDBValidKey, unknown][]) : []);
+};
+
+const saveEntries = (storage: KeyValueStorage, storeName: string, entries: Entries) => {
+  storage.setItem(STORE_KEY_PREFIX + storeName, JSON.stringify([...entries.entries()]));
+};
+
+// IndexedDB order: numbers before strings, each ascending
+const compareKeys = (a: IDBValidKey, b: IDBValidKey): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+const sortedValues = <T>(entries: Entries): T[] =>
+  [...entries.entries()].sort(([a], [b]) => compareKeys(a, b)).map(([, value]) => value as T);
+
+const readValue = (value: unknown, keyPath: string): IDBValidKey =>
+  (value as Record<string, IDBValidKey>)[keyPath];
+
+/**
+ * Bring the stores in `storage` to the latest schema version by running the
+ * entry transforms of every newer migration. Store and index changes need
+ * nothing here: these stores always take the current shape. Every store is
+ * transformed before any is written, and the version is written last, so a
+ * failed upgrade leaves the data as it was and runs again next time.
+ */
+export const migrateKeyValueStores = (storage: KeyValueStorage, migrations: Migration[] = MIGRATIONS): void => {
+  const latest = latestVersion(migrations);
+  const stored = storage.getItem(VERSION_KEY);
+  const hasStores = Object.keys(STORE_SCHEMA).some(name => storage.getItem(STORE_KEY_PREFIX + name) !== null);
+  const version = stored !== null ? Number(stored) : hasStores ? UNVERSIONED_STORES_VERSION : latest;
+
+  const stores = new Map<string, Entries>();
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    for (const [storeName, transform] of Object.entries(migration.transforms ?? {})) {
+      const entries = stores.get(storeName) ?? loadEntries(storage, storeName);
+      for (const [key, value] of [...entries]) {
+        const next = transform(value as Record<string, unknown>);
+        if (next === null) entries.delete(key);
+        else entries.set(key, next);
+      }
+      stores.set(storeName, entries);
+    }
+  }
+
+  for (const [storeName, entries] of stores) {
+    saveEntries(storage, storeName, entries);
+  }
+  if (stored === null || version < latest) {
+    storage.setItem(VERSION_KEY, String(Math.max(version, latest)));
+  }
+};
+
+/**
+ * Backend keeping each store as one JSON entry of `storage`. Transactions run
+ * one at a time on copies of their stores, which are written back only if
+ * `work` succeeds. If migrating the stores fails, every transaction fails.
+ */
+export const createKeyValueBackend = (storage: KeyValueStorage, kind: StorageKind): StorageBackend => {
+  const migrated = Promise.resolve().then(() => migrateKeyValueStores(storage));
+  migrated.catch(error => console.error('Storage migration failed:', error));
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const run = async <R>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: StoreTransaction) => Promise<R>
+  ): Promise<R> => {
+    const stores = new Map(storeNames.map(name => [name, loadEntries(storage, name)]));
+    const changed = new Set<string>();
+
+    const entriesOf = (storeName: string): Entries => {
+      const entries = stores.get(storeName);
+      if (!entries) throw new Error(`Store ${storeName} is not part of this transaction`);
+      return entries;
+    };
+    const write = (storeName: string): Entries => {
+      if (mode === 'readonly') throw new Error('Cannot write in a readonly transaction');
+      changed.add(storeName);
+      return entriesOf(storeName);
+    };
+
+    // Values are copied in and out, as IndexedDB clones them
+    const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+    const result = await work({
+      get: async <T>(storeName: string, key: IDBValidKey) => copy(entriesOf(storeName).get(key) as T | undefined),
+      getAll: async <T>(storeName: string) => copy(sortedValues<T>(entriesOf(storeName))),
+      getAllByIndex: async <T>(storeName: string, indexName: string, lower: IDBValidKey, upper: IDBValidKey) => {
+        const keyPath = STORE_SCHEMA[storeName].indexes[indexName];
+        const matches = sortedValues<T>(entriesOf(storeName)).filter(value => {
+          const indexed = readValue(value, keyPath);
+          return compareKeys(indexed, lower) >= 0 && compareKeys(indexed, upper) <= 0;
+        });
+        return copy(matches.sort((a, b) => compareKeys(readValue(a, keyPath), readValue(b, keyPath))));
+      },
+      put: async <T>(storeName: string, value: T, key?: IDBValidKey) => {
+        const keyPath = STORE_SCHEMA[storeName].keyPath;
+        write(storeName).set(keyPath ? readValue(value, keyPath) : key!, copy(value));
+      },
+      delete: async (storeName: string, key: IDBValidKey) => {
+        write(storeName).delete(key);
+      },
+    });
+
+    for (const storeName of changed) {
+      saveEntries(storage, storeName, entriesOf(storeName));
+    }
+    return result;
+  };
+
+  return {
+    kind,
+    transaction: (storeNames, mode, work) => {
+      const next = queue.then(() => migrated).then(() => run(storeNames, mode, work));
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+};
+
+export const createLocalStorageBackend = (storage: KeyValueStorage = localStorage): StorageBackend =>
+  createKeyValueBackend(storage, 'localstorage');
+
+// Lost on reload - the last resort
+export const createMemoryBackend = (): StorageBackend => {
+  const items = new Map<string, string>();
+  return createKeyValueBackend({
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  }, 'memory');
+};
+
+// Whether localStorage can actually be written (it throws in some private modes)
+export const isLocalStorageUsable = (): boolean => {
+  try {
+    const probe = `${STORE_KEY_PREFIX}probe`;
+    localStorage.setItem(probe, '1');
+    localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
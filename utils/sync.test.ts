@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncBackend, applyRemote, createHttpBackend, createPlayerId, syncPlayerData } from './sync';
+import { SyncPayload, createSyncPayload, isValidPlayerId } from './syncProtocol';
+import {
+  SavedGameState,
+  StoreSnapshot,
+  computeStatsFromRecords,
+  loadGameState,
+  pruneGameStates,
+  readAllStores,
+  saveGameState,
+} from './statsDb';
+import { closeDB, setBackend } from './db';
+import { createMemoryBackend } from './storageBackend';
+import { getPuzzleById } from './daily';
+
+const emptyStores = (): StoreSnapshot => ({
+  gameRecords: [],
+  stats: null,
+  gameState: [],
+  archiveRecords: [],
+  archiveGameState: [],
+});
+
+describe('applyRemote', () => {
+  it('should merge remote records and rebuild the streak across devices', () => {
+    const local = { ...emptyStores(), gameRecords: [{ puzzleId: 2, stars: 4, date: '2026-01-18' }] };
+    const remote = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17' }], []);
+
+    const result = applyRemote(local, remote, 3);
+
+    expect(result.gameRecords.map(r => r.puzzleId)).toEqual([1, 2]);
+    expect(result.stats?.currentStreak).toBe(2);
+    expect(result.stats?.totalStars).toBe(9);
+  });
+
+  it('should keep a longer local best streak', () => {
+    const gameRecords = [{ puzzleId: 1, stars: 5, date: '2026-01-17' }];
+    const local = { ...emptyStores(), gameRecords, stats: { ...computeStatsFromRecords(gameRecords), bestStreak: 12 } };
+
+    expect(applyRemote(local, createSyncPayload([], []), 3).stats?.bestStreak).toBe(12);
+  });
+
+  it('should leave archive stores alone', () => {
+    const archiveRecords = [{ puzzleId: 7, stars: 3, date: '2026-03-01' }];
+    const local = { ...emptyStores(), archiveRecords };
+
+    expect(applyRemote(local, createSyncPayload([], []), 3).archiveRecords).toBe(archiveRecords);
+  });
+
+  it('should skip saved games of earlier days', () => {
+    const state = (puzzleId: number): SavedGameState => ({
+      puzzleId,
+      grid: getPuzzleById(puzzleId).initialGrid,
+      swaps: 15,
+      status: 'PLAYING',
+      updatedAt: 1000,
+    });
+    const local = { ...emptyStores(), gameState: [state(1), state(3)] };
+
+    const result = applyRemote(local, createSyncPayload([], [state(2), state(4)]), 3);
+
+    expect(result.gameState.map(s => s.puzzleId)).toEqual([3, 4]);
+  });
+});
+
+describe('syncPlayerData', () => {
+  const gameState = (swaps: number, updatedAt: number, puzzleId = 4): SavedGameState => ({
+    puzzleId,
+    grid: getPuzzleById(puzzleId).initialGrid,
+    swaps,
+    status: 'PLAYING',
+    updatedAt,
+  });
+
+  // Server holding one payload, answering pushes with what was pushed
+  const fakeBackend = (payload: SyncPayload) => {
+    const pushed: SyncPayload[] = [];
+    const backend: SyncBackend = {
+      pull: async () => payload,
+      push: async next => {
+        pushed.push(next);
+        return next;
+      },
+    };
+    return { backend, pushed };
+  };
+
+  beforeEach(async () => {
+    await closeDB();
+    setBackend(createMemoryBackend());
+  });
+
+  it('should resolve with the game played later on another device', async () => {
+    await saveGameState(gameState(14, 1000));
+    const { backend, pushed } = fakeBackend(createSyncPayload([], [gameState(11, 2000)]));
+
+    const synced = await syncPlayerData(backend, 4);
+
+    expect(synced.gameState).toEqual([gameState(11, 2000)]);
+    expect(await loadGameState(4)).toEqual(gameState(11, 2000));
+    expect(pushed[0].states).toEqual([gameState(11, 2000)]);
+  });
+
+  it('should keep this device\'s game when it was played later', async () => {
+    await saveGameState(gameState(14, 3000));
+    const { backend } = fakeBackend(createSyncPayload([], [gameState(11, 2000)]));
+
+    expect((await syncPlayerData(backend, 4)).gameState).toEqual([gameState(14, 3000)]);
+  });
+
+  it('should not bring back saved games pruned from earlier days', async () => {
+    await saveGameState(gameState(14, 1000, 2));
+    await saveGameState(gameState(12, 1000, 4));
+    await pruneGameStates(4);
+    // The server still holds every game it was sent, including day 2's
+    const { backend, pushed } = fakeBackend(
+      createSyncPayload([], [gameState(14, 1000, 2), gameState(13, 1000, 3), gameState(12, 1000, 4)])
+    );
+
+    await syncPlayerData(backend, 4);
+
+    expect((await readAllStores()).gameState.map(s => s.puzzleId)).toEqual([4]);
+    expect(pushed[0].states.map(s => s.puzzleId)).toEqual([4]);
+  });
+});
+
+describe('createPlayerId', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create valid, distinct ids', () => {
+    const id = createPlayerId();
+
+    expect(isValidPlayerId(id)).toBe(true);
+    expect(createPlayerId()).not.toBe(id);
+  });
+
+  it('should fall back to random bytes without randomUUID (insecure contexts)', () => {
+    vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) });
+
+    const id = createPlayerId();
+
+    expect(id).toMatch(/^[0-9a-f]{32}$/);
+    expect(isValidPlayerId(id)).toBe(true);
+    expect(createPlayerId()).not.toBe(id);
+  });
+});
+
+describe('createHttpBackend', () => {
+  const payload = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17' }], []);
+
+  // Records requests and answers with `body`
+  const fakeFetch = (status: number, body: unknown) => {
+    const calls: { url: string; init?: RequestInit }[] = [];
+    const fetchFn = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch;
+    return { calls, fetchFn };
+  };
+
+  it('should pull with GET from the player URL', async () => {
+    const { calls, fetchFn } = fakeFetch(200, payload);
+    const backend = createHttpBackend('http://localhost:8787/', 'player-id-0123456789', fetchFn);
+
+    expect(await backend.pull()).toEqual(payload);
+    expect(calls[0].url).toBe('http://localhost:8787/players/player-id-0123456789');
+    expect(calls[0].init?.method).toBeUndefined();
+  });
+
+  it('should push with POST and return the merged payload', async () => {
+    const { calls, fetchFn } = fakeFetch(200, payload);
+    const backend = createHttpBackend('http://localhost:8787', 'player-id-0123456789', fetchFn);
+
+    expect(await backend.push(createSyncPayload([], []))).toEqual(payload);
+    expect(calls[0].init?.method).toBe('POST');
+    expect(JSON.parse(calls[0].init?.body as string)).toEqual(createSyncPayload([], []));
+  });
+
+  it('should fail on error responses', async () => {
+    const { fetchFn } = fakeFetch(500, { error: 'boom' });
+    const backend = createHttpBackend('http://localhost:8787', 'player-id-0123456789', fetchFn);
+
+    await expect(backend.pull()).rejects.toThrow('500');
+  });
+
+  it('should fail on malformed responses', async () => {
+    const { fetchFn } = fakeFetch(200, { version: 1, records: 'nope', states: [] });
+    const backend = createHttpBackend('http://localhost:8787', 'player-id-0123456789', fetchFn);
+
+    await expect(backend.pull()).rejects.toThrow('records');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Sync of daily game records and today's saved game with a remote server, so
+ * one streak follows the player across devices. See syncProtocol.ts for the contract.
+ */
+
+import { StoreSnapshot, computeStatsFromRecords, updateAllStores, withBestStreak } from './statsDb';
+import { SyncPayload, createSyncPayload, mergeSyncPayloads, parseSyncPayload } from './syncProtocol';
+import { getDailySeed } from './daily';
+import type { SavedGameState } from './statsDb';
+
+// Where synced data lives; swap in another implementation to sync elsewhere
+export interface SyncBackend {
+  pull(): Promise<SyncPayload>;
+  push(payload: SyncPayload): Promise<SyncPayload>;
+}
+
+// Backend speaking the REST contract over fetch
+export const createHttpBackend = (
+  endpoint: string,
+  playerId: string,
+  fetchFn: typeof fetch = fetch
+): SyncBackend => {
+  const url = `${endpoint.replace(/\/+$/, '')}/players/${encodeURIComponent(playerId)}`;
+
+  const request = async (init?: RequestInit): Promise<SyncPayload> => {
+    const response = await fetchFn(url, init);
+    if (!response.ok) {
+      throw new Error(`Sync server responded with ${response.status}`);
+    }
+    return parseSyncPayload(await response.json());
+  };
+
+  return {
+    pull: () => request(),
+    push: payload => request({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    }),
+  };
+};
+
+// Saved games worth syncing: today's (or a later day's, if a clock is ahead). Earlier
+// days' games are pruned into their records and archive (see retention.ts), and the
+// server keeps every game it was ever sent, so they would come back on every sync.
+const currentStates = (states: SavedGameState[], todayPuzzleId: number): SavedGameState[] =>
+  states.filter(state => state.puzzleId >= todayPuzzleId);
+
+// Fold remote data into the local stores; stats are recomputed from the merged records,
+// keeping the local best streak if it is longer
+export const applyRemote = (local: StoreSnapshot, remote: SyncPayload, todayPuzzleId: number): StoreSnapshot => {
+  const merged = mergeSyncPayloads(
+    createSyncPayload(local.gameRecords, currentStates(local.gameState, todayPuzzleId)),
+    createSyncPayload(remote.records, currentStates(remote.states, todayPuzzleId))
+  );
+  return {
+    ...local,
+    gameRecords: merged.records,
+    stats: withBestStreak(computeStatsFromRecords(merged.records), local.stats?.bestStreak ?? 0),
+    gameState: merged.states,
+  };
+};
+
+/**
+ * Pull the remote data, merge it into the local stores and push the merged
+ * result back. The server merges pushes again, so devices syncing at the same
+ * time don't overwrite each other. Resolves with the stores as merged.
+ */
+export async function syncPlayerData(backend: SyncBackend, todayPuzzleId: number = getDailySeed()): Promise<StoreSnapshot> {
+  const remote = await backend.pull();
+  const merged = await updateAllStores(local => applyRemote(local, remote, todayPuzzleId));
+  await backend.push(createSyncPayload(merged.gameRecords, currentStates(merged.gameState, todayPuzzleId)));
+  return merged;
+}
+
+// Random id pairing a player's devices. randomUUID is only offered in secure contexts,
+// so a sync server reached over plain http on the LAN gets 16 random bytes as hex instead
+export const createPlayerId = (): string => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { createSyncPayload, isValidPlayerId, mergeSyncPayloads, parseSyncPayload } from './syncProtocol';
+import { SavedGameState } from './statsDb';
+import { getPuzzleById } from './daily';
+
+const gameState = (puzzleId: number, overrides: Partial<SavedGameState> = {}): SavedGameState => {
+  const puzzle = getPuzzleById(puzzleId);
+  return {
+    puzzleId,
+    grid: puzzle.initialGrid,
+    swaps: 15,
+    status: 'PLAYING',
+    ...overrides,
+  };
+};
+
+describe('isValidPlayerId', () => {
+  it('should accept generated ids', () => {
+    expect(isValidPlayerId('3b241101-e2bb-4255-8caf-4136c566a962')).toBe(true);
+  });
+
+  it('should reject short or unsafe ids', () => {
+    expect(isValidPlayerId('abc')).toBe(false);
+    expect(isValidPlayerId('../../etc/passwd-1234')).toBe(false);
+    expect(isValidPlayerId('')).toBe(false);
+  });
+});
+
+describe('parseSyncPayload', () => {
+  it('should accept a valid payload', () => {
+    const payload = createSyncPayload(
+      [{ puzzleId: 1, stars: 5, date: '2026-01-17', recordedAt: 1000 }],
+      [gameState(2, { updatedAt: 2000 })]
+    );
+    expect(parseSyncPayload(JSON.parse(JSON.stringify(payload)))).toEqual(payload);
+  });
+
+  it('should drop the solution kept by older saved games', () => {
+    const old = { ...gameState(2), solution: getPuzzleById(2).solution };
+    expect(parseSyncPayload({ version: 1, records: [], states: [old] }).states).toEqual([gameState(2)]);
+  });
+
+  it('should reject other versions', () => {
+    expect(() => parseSyncPayload({ version: 2, records: [], states: [] })).toThrow('version');
+  });
+
+  it('should reject malformed entries', () => {
+    expect(() => parseSyncPayload({ version: 1, records: [{ puzzleId: 1 }], states: [] })).toThrow('records');
+    expect(() => parseSyncPayload({ version: 1, records: [], states: [{ puzzleId: 1 }] })).toThrow('states');
+    expect(() => parseSyncPayload({ version: 1, records: [], states: [gameState(1, { updatedAt: -5 })] })).toThrow('states');
+    expect(() => parseSyncPayload([])).toThrow();
+  });
+});
+
+describe('mergeSyncPayloads', () => {
+  it('should combine games from both devices', () => {
+    const laptop = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17' }], [gameState(3)]);
+    const phone = createSyncPayload([{ puzzleId: 2, stars: 3, date: '2026-01-18' }], []);
+
+    const merged = mergeSyncPayloads(laptop, phone);
+
+    expect(merged.records.map(r => r.puzzleId)).toEqual([1, 2]);
+    expect(merged.states.map(s => s.puzzleId)).toEqual([3]);
+  });
+
+  it('should keep the result recorded first', () => {
+    const laptop = createSyncPayload([{ puzzleId: 1, stars: 2, date: '2026-01-17', recordedAt: 2000 }], []);
+    const phone = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17', recordedAt: 1000 }], []);
+
+    expect(mergeSyncPayloads(laptop, phone).records[0].stars).toBe(5);
+    expect(mergeSyncPayloads(phone, laptop).records[0].stars).toBe(5);
+  });
+
+  it('should keep the in-progress game saved last', () => {
+    const laptop = createSyncPayload([], [gameState(4, { swaps: 12, updatedAt: 3000 })]);
+    const phone = createSyncPayload([], [gameState(4, { swaps: 10, updatedAt: 1000 })]);
+
+    expect(mergeSyncPayloads(laptop, phone).states[0].swaps).toBe(12);
+    expect(mergeSyncPayloads(phone, laptop).states[0].swaps).toBe(12);
+  });
+
+  it('should keep the game finished first', () => {
+    const laptop = createSyncPayload([], [gameState(4, { status: 'LOST', swaps: 0, updatedAt: 3000 })]);
+    const phone = createSyncPayload([], [gameState(4, { status: 'WON', swaps: 6, updatedAt: 1000 })]);
+
+    expect(mergeSyncPayloads(laptop, phone).states[0].status).toBe('WON');
+    expect(mergeSyncPayloads(phone, laptop).states[0].status).toBe('WON');
+  });
+
+  it('should never let an in-progress game replace a finished one', () => {
+    const laptop = createSyncPayload([], [gameState(4, { status: 'WON', swaps: 6, updatedAt: 1000 })]);
+    const phone = createSyncPayload([], [gameState(4, { updatedAt: 5000 })]);
+
+    expect(mergeSyncPayloads(phone, laptop).states[0].status).toBe('WON');
+  });
+
+  it('should give the same result when merged again', () => {
+    const laptop = createSyncPayload([{ puzzleId: 1, stars: 5, date: '2026-01-17' }], [gameState(2, { updatedAt: 10 })]);
+    const phone = createSyncPayload([{ puzzleId: 2, stars: 1, date: '2026-01-18' }], [gameState(2, { updatedAt: 20 })]);
+
+    const once = mergeSyncPayloads(laptop, phone);
+    expect(mergeSyncPayloads(once, phone)).toEqual(once);
+    expect(mergeSyncPayloads(laptop, once)).toEqual(once);
+  });
+});
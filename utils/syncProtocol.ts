@@ -0,0 +1,62 @@
+/**
+ * REST contract between the game and a sync server. A player is identified
+ * by a random id shared between their devices; the server keeps one payload
+ * per player and merges every push into it with the same rules as the client.
+ *
+ *   GET  {endpoint}/players/{playerId}  -> SyncPayload (empty for a new player)
+ *   POST {endpoint}/players/{playerId}  <- SyncPayload, -> the merged SyncPayload
+ *
+ * Only daily games are synced - archive games don't count towards streaks.
+ */
+
+import { GameRecord } from '../types';
+import type { SavedGameState } from './statsDb';
+import {
+  isGameRecord,
+  isObject,
+  isSavedGameState,
+  mergeByPuzzleId,
+  pickGameState,
+  pickRecord,
+  withoutSolution,
+} from './playerData';
+
+export const SYNC_VERSION = 1;
+
+export interface SyncPayload {
+  version: number;
+  records: GameRecord[];
+  states: SavedGameState[];
+}
+
+export const createSyncPayload = (records: GameRecord[], states: SavedGameState[]): SyncPayload => ({
+  version: SYNC_VERSION,
+  records,
+  states,
+});
+
+// Long enough to be unguessable, safe to put in a URL
+export const isValidPlayerId = (id: string): boolean => /^[A-Za-z0-9_-]{16,64}$/.test(id);
+
+/**
+ * Validate a payload received from the other side. Throws an Error naming
+ * the first problem found.
+ */
+export const parseSyncPayload = (data: unknown): SyncPayload => {
+  if (!isObject(data)) throw new Error('Sync payload must be an object');
+  if (data.version !== SYNC_VERSION) throw new Error(`Unsupported sync version: ${String(data.version)}`);
+  if (!Array.isArray(data.records) || !data.records.every(isGameRecord)) {
+    throw new Error('Sync payload has malformed records');
+  }
+  if (!Array.isArray(data.states) || !data.states.every(isSavedGameState)) {
+    throw new Error('Sync payload has malformed game states');
+  }
+  return createSyncPayload(data.records, data.states.map(withoutSolution));
+};
+
+// Union of both sides by puzzleId; on conflicts the first result and the latest game win
+export const mergeSyncPayloads = (local: SyncPayload, remote: SyncPayload): SyncPayload =>
+  createSyncPayload(
+    mergeByPuzzleId(local.records, remote.records, pickRecord),
+    mergeByPuzzleId(local.states, remote.states, pickGameState)
+  );
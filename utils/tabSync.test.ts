@@ -0,0 +1,150 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TabMessage, createBroadcastTabChannel, createStorageTabChannel, isTabMessage } from './tabSync';
+import { SavedGameState } from './statsDb';
+import { resolveReceivedGame } from './playerData';
+import { getPuzzleById } from './daily';
+
+const state: SavedGameState = {
+  puzzleId: 3,
+  grid: getPuzzleById(3).initialGrid,
+  swaps: 14,
+  status: 'PLAYING',
+};
+
+const stateMessage: TabMessage = { type: 'state', archive: false, state };
+
+// Two tabs' windows sharing one localStorage: a write fires a storage event in the other window only
+const createTabs = () => {
+  const windows = [new EventTarget(), new EventTarget()];
+  const storageOf = (self: number) => ({
+    setItem: (key: string, newValue: string) => {
+      const event = Object.assign(new Event('storage'), { key, newValue });
+      windows[1 - self].dispatchEvent(event);
+    },
+    removeItem: (key: string) => {
+      const event = Object.assign(new Event('storage'), { key, newValue: null });
+      windows[1 - self].dispatchEvent(event);
+    },
+  });
+  return [0, 1].map(i => createStorageTabChannel(storageOf(i), windows[i]));
+};
+
+describe('isTabMessage', () => {
+  it('should accept saved games and recorded results', () => {
+    expect(isTabMessage(stateMessage)).toBe(true);
+    expect(isTabMessage({ type: 'recorded', archive: true, puzzleId: 3 })).toBe(true);
+  });
+
+  it('should reject anything else', () => {
+    expect(isTabMessage({ type: 'state', archive: false, state: { puzzleId: 3 } })).toBe(false);
+    expect(isTabMessage({ type: 'recorded', puzzleId: 3 })).toBe(false);
+    expect(isTabMessage({ type: 'reload', archive: false })).toBe(false);
+    expect(isTabMessage('state')).toBe(false);
+  });
+});
+
+describe('createBroadcastTabChannel', () => {
+  it('should deliver messages to the other tabs', async () => {
+    const sender = createBroadcastTabChannel('mkwaffle-test');
+    const receiver = createBroadcastTabChannel('mkwaffle-test');
+    const received = new Promise<TabMessage>(resolve => receiver.subscribe(resolve));
+
+    sender.post(stateMessage);
+
+    expect(await received).toEqual(stateMessage);
+    sender.close();
+    receiver.close();
+  });
+});
+
+describe('createStorageTabChannel', () => {
+  it('should deliver messages to the other tab', () => {
+    const [first, second] = createTabs();
+    const listener = vi.fn();
+    second.subscribe(listener);
+
+    first.post(stateMessage);
+    first.post({ type: 'recorded', archive: false, puzzleId: 3 });
+
+    expect(listener.mock.calls).toEqual([[stateMessage], [{ type: 'recorded', archive: false, puzzleId: 3 }]]);
+  });
+
+  it('should not deliver messages back to the sender', () => {
+    const [first] = createTabs();
+    const listener = vi.fn();
+    first.subscribe(listener);
+
+    first.post(stateMessage);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering once unsubscribed or closed', () => {
+    const [first, second] = createTabs();
+    const listener = vi.fn();
+    const unsubscribe = second.subscribe(listener);
+
+    unsubscribe();
+    first.post(stateMessage);
+    second.subscribe(listener);
+    second.close();
+    first.post(stateMessage);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveReceivedGame', () => {
+  const at = (updatedAt: number, overrides: Partial<SavedGameState> = {}): SavedGameState =>
+    ({ ...state, updatedAt, ...overrides });
+
+  it('should take over a game saved later', () => {
+    expect(resolveReceivedGame(at(1000), at(2000))).toBe('adopt');
+  });
+
+  it('should answer a game saved earlier with its own', () => {
+    expect(resolveReceivedGame(at(2000), at(1000))).toBe('answer');
+  });
+
+  it('should keep its own game when neither is ahead', () => {
+    expect(resolveReceivedGame(at(1000), at(1000))).toBe('keep');
+  });
+
+  it('should take over a finished game, even one saved earlier', () => {
+    expect(resolveReceivedGame(at(2000), at(1000, { status: 'WON' }))).toBe('adopt');
+    expect(resolveReceivedGame(at(1000, { status: 'LOST', swaps: 0 }), at(2000))).toBe('answer');
+  });
+
+  // Each tab saves its game (the last write stays in storage) and posts it;
+  // messages are delivered only after both saves
+  const playTwoTabs = (first: SavedGameState, second: SavedGameState, writeOrder: number[]) => {
+    const tabs = [first, second];
+    const storage: SavedGameState[] = [];
+    const outbox: { from: number; game: SavedGameState }[] = [];
+    const save = (tab: number) => {
+      storage.push(tabs[tab]);
+      outbox.push({ from: tab, game: tabs[tab] });
+    };
+
+    writeOrder.forEach(save);
+    while (outbox.length > 0) {
+      const { from, game } = outbox.shift()!;
+      const to = 1 - from;
+      const action = resolveReceivedGame(tabs[to], game);
+      if (action === 'adopt') tabs[to] = game;
+      if (action === 'answer') save(to);
+    }
+    return { tabs, stored: storage[storage.length - 1] };
+  };
+
+  it('should leave two tabs that saved at the same time on the later game, whichever write landed last', () => {
+    const a = at(1000, { swaps: 14 });
+    const b = at(2000, { swaps: 13 });
+
+    for (const writeOrder of [[0, 1], [1, 0]]) {
+      const { tabs, stored } = playTwoTabs(a, b, writeOrder);
+      expect(tabs).toEqual([b, b]);
+      expect(stored).toBe(b);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Messages between tabs of the game open in the same browser, so a game
+ * played in one tab shows up in the others instead of being overwritten by
+ * them. Uses BroadcastChannel where available, otherwise storage events on a
+ * localStorage key.
+ */
+
+import type { SavedGameState } from './statsDb';
+import { isLocalStorageUsable } from './storageBackend';
+import { isObject, isSavedGameState } from './playerData';
+
+export type TabMessage =
+  // A game was saved; other tabs showing the same puzzle take it over
+  | { type: 'state'; archive: boolean; state: SavedGameState }
+  // A result was recorded; other tabs refresh their stats
+  | { type: 'recorded'; archive: boolean; puzzleId: number };
+
+export interface TabChannel {
+  post: (message: TabMessage) => void;
+  subscribe: (listener: (message: TabMessage) => void) => () => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'mkwaffle-tabs';
+// Not a mkwaffle- preference, so backups leave it out
+const MESSAGE_KEY = 'mkwaffle.tab-message';
+
+export const isTabMessage = (value: unknown): value is TabMessage => {
+  if (!isObject(value) || typeof value.archive !== 'boolean') return false;
+  if (value.type === 'state') return isSavedGameState(value.state);
+  if (value.type === 'recorded') return Number.isInteger(value.puzzleId);
+  return false;
+};
+
+// Listeners of a channel, each called with every valid message
+const createListeners = () => {
+  const listeners = new Set<(message: TabMessage) => void>();
+  return {
+    add: (listener: (message: TabMessage) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispatch: (data: unknown) => {
+      if (!isTabMessage(data)) return;
+      for (const listener of listeners) listener(data);
+    },
+  };
+};
+
+export const createBroadcastTabChannel = (name: string = CHANNEL_NAME): TabChannel => {
+  const channel = new BroadcastChannel(name);
+  const listeners = createListeners();
+  channel.onmessage = event => listeners.dispatch(event.data);
+
+  return {
+    post: message => channel.postMessage(message),
+    subscribe: listeners.add,
+    close: () => channel.close(),
+  };
+};
+
+type StorageEventTarget = Pick<Window, 'addEventListener' | 'removeEventListener'>;
+
+/**
+ * Fallback for browsers without BroadcastChannel. Writing a key fires a
+ * storage event in every other tab; the key is removed straight away, and the
+ * nonce makes repeated messages count as changes.
+ */
+export const createStorageTabChannel = (
+  storage: Pick<Storage, 'setItem' | 'removeItem'>,
+  target: StorageEventTarget
+): TabChannel => {
+  const listeners = createListeners();
+  const handleStorage = (event: Event) => {
+    const { key, newValue } = event as StorageEvent;
+    if (key !== MESSAGE_KEY || !newValue) return;
+    try {
+      listeners.dispatch(JSON.parse(newValue).message);
+    } catch {
+      // Not one of ours
+    }
+  };
+  target.addEventListener('storage', handleStorage);
+
+  return {
+    post: message => {
+      try {
+        storage.setItem(MESSAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+        storage.removeItem(MESSAGE_KEY);
+      } catch (error) {
+        console.error('Error messaging other tabs:', error);
+      }
+    },
+    subscribe: listeners.add,
+    close: () => target.removeEventListener('storage', handleStorage),
+  };
+};
+
+// Channel for this browser; without BroadcastChannel or localStorage, messages go nowhere
+export const createTabChannel = (): TabChannel => {
+  if (typeof BroadcastChannel !== 'undefined') return createBroadcastTabChannel();
+  if (typeof window !== 'undefined' && isLocalStorageUsable()) return createStorageTabChannel(localStorage, window);
+  return { post: () => {}, subscribe: () => () => {}, close: () => {} };
+};
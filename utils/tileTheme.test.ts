@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { TILE_THEMES, getShareSquare, getStatusMarker, getTileColorClass, parseTileTheme } from './tileTheme';
+import { STATUS_MARKERS, THEME_COLORS, THEME_EMOJI } from '../constants';
+import { CellStatus } from '../types';
+
+describe('parseTileTheme', () => {
+  it('should accept every known theme', () => {
+    TILE_THEMES.forEach(theme => expect(parseTileTheme(theme)).toBe(theme));
+  });
+
+  it('should fall back to the classic theme', () => {
+    expect(parseTileTheme(null)).toBe('classic');
+    expect(parseTileTheme('neon')).toBe('classic');
+  });
+});
+
+describe('getTileColorClass', () => {
+  it('should use the theme\'s color for each status', () => {
+    TILE_THEMES.forEach(theme => {
+      expect(getTileColorClass(CellStatus.CORRECT, theme)).toBe(THEME_COLORS[theme].GREEN);
+      expect(getTileColorClass(CellStatus.PRESENT, theme)).toBe(THEME_COLORS[theme].YELLOW);
+      expect(getTileColorClass(CellStatus.WRONG, theme)).toBe(THEME_COLORS[theme].GRAY);
+    });
+  });
+
+  it('should tell the colorblind theme apart by more than red and green', () => {
+    expect(getTileColorClass(CellStatus.CORRECT, 'colorblind')).not.toBe(getTileColorClass(CellStatus.CORRECT, 'classic'));
+    expect(getTileColorClass(CellStatus.PRESENT, 'colorblind')).not.toBe(getTileColorClass(CellStatus.PRESENT, 'classic'));
+  });
+
+  it('should darken every tile once the game is over', () => {
+    expect(getTileColorClass(CellStatus.CORRECT, 'high-contrast', true)).toBe(THEME_COLORS['high-contrast'].DARK);
+    expect(getTileColorClass(CellStatus.WRONG, 'classic', true)).toBe(THEME_COLORS.classic.DARK);
+  });
+});
+
+describe('getStatusMarker', () => {
+  it('should mark correct and misplaced letters only', () => {
+    expect(getStatusMarker(CellStatus.CORRECT)).toBe(STATUS_MARKERS.CORRECT);
+    expect(getStatusMarker(CellStatus.PRESENT)).toBe(STATUS_MARKERS.PRESENT);
+    expect(getStatusMarker(CellStatus.WRONG)).toBeNull();
+    expect(getStatusMarker(CellStatus.NONE)).toBeNull();
+  });
+});
+
+describe('getShareSquare', () => {
+  it('should use the theme\'s emoji', () => {
+    expect(getShareSquare(CellStatus.CORRECT, 'colorblind')).toBe('🟧');
+    expect(getShareSquare(CellStatus.PRESENT, 'colorblind')).toBe('🟦');
+    expect(getShareSquare(CellStatus.WRONG, 'high-contrast')).toBe('⬛');
+    expect(getShareSquare(CellStatus.WRONG, 'classic')).toBe(THEME_EMOJI.classic.WRONG);
+  });
+});
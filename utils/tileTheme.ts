@@ -0,0 +1,37 @@
+/**
+ * Tile themes: which color, marker and share square each letter status gets
+ */
+
+import { CellStatus, TileTheme } from '../types';
+import { STATUS_MARKERS, THEME_COLORS, THEME_EMOJI } from '../constants';
+
+export const TILE_THEMES: TileTheme[] = ['classic', 'colorblind', 'high-contrast'];
+export const DEFAULT_TILE_THEME: TileTheme = 'classic';
+
+// Theme saved in the options, or the classic one if it's missing or unknown
+export const parseTileTheme = (stored: string | null): TileTheme =>
+  stored !== null && (TILE_THEMES as string[]).includes(stored) ? (stored as TileTheme) : DEFAULT_TILE_THEME;
+
+// Color classes of a tile; a finished game darkens every tile
+export const getTileColorClass = (status: CellStatus, theme: TileTheme, isGameOver = false): string => {
+  const colors = THEME_COLORS[theme];
+  if (isGameOver) return colors.DARK;
+  if (status === CellStatus.CORRECT) return colors.GREEN;
+  if (status === CellStatus.PRESENT) return colors.YELLOW;
+  return colors.GRAY;
+};
+
+// Shape drawn on a tile next to its color, if any
+export const getStatusMarker = (status: CellStatus): string | null => {
+  if (status === CellStatus.CORRECT) return STATUS_MARKERS.CORRECT;
+  if (status === CellStatus.PRESENT) return STATUS_MARKERS.PRESENT;
+  return null;
+};
+
+// Square of a tile in the share grid
+export const getShareSquare = (status: CellStatus, theme: TileTheme): string => {
+  const emoji = THEME_EMOJI[theme];
+  if (status === CellStatus.CORRECT) return emoji.CORRECT;
+  if (status === CellStatus.PRESENT) return emoji.PRESENT;
+  return emoji.WRONG;
+};
@@ -0,0 +1,63 @@
+/**
+ * React hook for the puzzle archive (past daily puzzles)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { GameRecord } from '../types';
+import {
+  getAllGameRecords,
+  getArchiveRecords,
+  recordArchiveResult,
+  getTodayDateString,
+} from './statsDb';
+
+export interface UseArchiveReturn {
+  results: Record<number, GameRecord>;
+  recordResult: (puzzleId: number, won: boolean, starsEarned: number, hintsUsed?: number) => Promise<void>;
+  refreshResults: () => Promise<void>;
+}
+
+export function useArchive(): UseArchiveReturn {
+  const [results, setResults] = useState<Record<number, GameRecord>>({});
+
+  // Result per puzzle number - a game played on its own day wins over an archive replay
+  const refreshResults = useCallback(async () => {
+    try {
+      const [dailyRecords, archiveRecords] = await Promise.all([
+        getAllGameRecords(),
+        getArchiveRecords(),
+      ]);
+
+      const merged: Record<number, GameRecord> = {};
+      for (const record of archiveRecords) {
+        merged[record.puzzleId] = record;
+      }
+      for (const record of dailyRecords) {
+        merged[record.puzzleId] = record;
+      }
+      setResults(merged);
+    } catch (error) {
+      console.error('Error loading archive results:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshResults();
+  }, [refreshResults]);
+
+  // Record an archive game result
+  const recordResult = useCallback(async (puzzleId: number, won: boolean, starsEarned: number, hintsUsed = 0) => {
+    try {
+      const record = await recordArchiveResult(puzzleId, won, starsEarned, getTodayDateString(), hintsUsed);
+      setResults(prev => (prev[puzzleId] ? prev : { ...prev, [puzzleId]: record }));
+    } catch (error) {
+      console.error('Error recording archive result:', error);
+    }
+  }, []);
+
+  return {
+    results,
+    recordResult,
+    refreshResults,
+  };
+}
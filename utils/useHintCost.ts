@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+import { DEFAULT_HINT_COST, HINT_COSTS } from '../constants';
+
+const HINT_COST_KEY = 'mkwaffle-hint-cost';
+
+export function useHintCost() {
+  const [hintCost, setHintCost] = useState<number>(() => {
+    // Check localStorage on initial load
+    if (typeof window !== 'undefined') {
+      const stored = Number(localStorage.getItem(HINT_COST_KEY));
+      if (HINT_COSTS.includes(stored)) {
+        return stored;
+      }
+    }
+    return DEFAULT_HINT_COST;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(HINT_COST_KEY, String(hintCost));
+  }, [hintCost]);
+
+  return { hintCost, setHintCost };
+}
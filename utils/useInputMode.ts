@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { InputMode } from '../types';
+
+const INPUT_MODE_KEY = 'mkwaffle-input-mode';
+const INPUT_MODES: InputMode[] = ['drag', 'tap'];
+
+export function useInputMode() {
+  const [inputMode, setInputMode] = useState<InputMode>(() => {
+    // Check localStorage on initial load
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem(INPUT_MODE_KEY);
+      if (stored !== null && (INPUT_MODES as string[]).includes(stored)) {
+        return stored as InputMode;
+      }
+    }
+    return 'drag';
+  });
+
+  useEffect(() => {
+    localStorage.setItem(INPUT_MODE_KEY, inputMode);
+  }, [inputMode]);
+
+  return { inputMode, setInputMode };
+}
@@ -6,18 +6,19 @@ import { useState, useEffect, useCallback } from 'react';
 import { GameStats } from '../types';
 import {
   getStats,
+  ensureConsistentStats,
   recordGameResult,
   hasPlayedPuzzle,
-  getTodayDateString,
+  pruneGameStates,
   DEFAULT_STATS,
 } from './statsDb';
-import { getDailySeed } from './daily';
+import { getDailySeed, getPuzzleDateString } from './daily';
 
 export interface UseStatsReturn {
   stats: GameStats;
   isLoading: boolean;
   hasPlayedToday: boolean;
-  recordResult: (won: boolean, starsEarned: number) => Promise<void>;
+  recordResult: (puzzleId: number, won: boolean, starsEarned: number, hintsUsed?: number) => Promise<void>;
   refreshStats: () => Promise<void>;
 }
 
@@ -30,11 +31,15 @@ export function useStats(): UseStatsReturn {
   useEffect(() => {
     const loadStats = async () => {
       try {
-        const loadedStats = await getStats();
+        // Repairs the aggregates if they drifted from the game records
+        const loadedStats = await ensureConsistentStats();
         setStats(loadedStats);
 
-        // Check if today's puzzle was already played
         const puzzleId = getDailySeed();
+        // Saved games of earlier days are no longer needed
+        await pruneGameStates(puzzleId);
+
+        // Check if today's puzzle was already played
         const played = await hasPlayedPuzzle(puzzleId);
         setHasPlayedToday(played);
       } catch (error) {
@@ -47,15 +52,15 @@ export function useStats(): UseStatsReturn {
     loadStats();
   }, []);
 
-  // Record a game result
-  const recordResult = useCallback(async (won: boolean, starsEarned: number) => {
+  // Record the result of a daily game on its puzzle's day - also when it was
+  // finished just after midnight, so the streak isn't broken by a day played
+  const recordResult = useCallback(async (puzzleId: number, won: boolean, starsEarned: number, hintsUsed = 0) => {
     try {
-      const puzzleId = getDailySeed();
-      const dateString = getTodayDateString();
+      const dateString = getPuzzleDateString(puzzleId);
 
-      const newStats = await recordGameResult(puzzleId, won, starsEarned, dateString);
+      const newStats = await recordGameResult(puzzleId, won, starsEarned, dateString, hintsUsed);
       setStats(newStats);
-      setHasPlayedToday(true);
+      if (puzzleId === getDailySeed()) setHasPlayedToday(true);
     } catch (error) {
       console.error('Error recording result:', error);
     }
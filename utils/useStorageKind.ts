@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { getStorageKind } from './db';
+import { StorageKind } from './storageBackend';
+
+// Which storage holds the player's progress (null until it has been picked)
+export function useStorageKind(): StorageKind | null {
+  const [storageKind, setStorageKind] = useState<StorageKind | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getStorageKind().then(kind => {
+      if (!cancelled) setStorageKind(kind);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return storageKind;
+}
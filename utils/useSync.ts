@@ -0,0 +1,87 @@
+/**
+ * React hook for syncing daily games with a sync server
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { createHttpBackend, createPlayerId, syncPlayerData } from './sync';
+import { isValidPlayerId } from './syncProtocol';
+import type { StoreSnapshot } from './statsDb';
+
+const SYNC_ENDPOINT_KEY = 'mkwaffle-sync-endpoint';
+const SYNC_ID_KEY = 'mkwaffle-sync-id';
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'error';
+
+export interface UseSyncReturn {
+  endpoint: string;
+  setEndpoint: (endpoint: string) => void;
+  playerId: string;
+  setPlayerId: (playerId: string) => void;
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<void>;
+}
+
+// `onSynced` runs after every successful sync with the stores as merged, to reload whatever it changed
+export function useSync(onSynced: (synced: StoreSnapshot) => void): UseSyncReturn {
+  const [endpoint, setEndpoint] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem(SYNC_ENDPOINT_KEY) ?? '';
+    }
+    return '';
+  });
+  const [playerId, setPlayerId] = useState(() => {
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem(SYNC_ID_KEY);
+      if (stored !== null && isValidPlayerId(stored)) {
+        return stored;
+      }
+    }
+    return createPlayerId();
+  });
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('idle');
+  // The latest callback, for syncs started before the game was loaded
+  const onSyncedRef = useRef(onSynced);
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  useEffect(() => {
+    localStorage.setItem(SYNC_ENDPOINT_KEY, endpoint);
+  }, [endpoint]);
+
+  useEffect(() => {
+    localStorage.setItem(SYNC_ID_KEY, playerId);
+  }, [playerId]);
+
+  const syncNow = useCallback(async () => {
+    if (!endpoint || !isValidPlayerId(playerId)) return;
+    setSyncStatus('syncing');
+    try {
+      const synced = await syncPlayerData(createHttpBackend(endpoint, playerId));
+      setSyncStatus('synced');
+      onSyncedRef.current(synced);
+    } catch (error) {
+      console.error('Error syncing:', error);
+      setSyncStatus('error');
+    }
+  }, [endpoint, playerId]);
+
+  // Pick up games played on other devices once on startup; later syncs
+  // follow finished games or the Options button
+  const hasSyncedOnLoad = useRef(false);
+  useEffect(() => {
+    if (hasSyncedOnLoad.current) return;
+    hasSyncedOnLoad.current = true;
+    syncNow();
+  }, [syncNow]);
+
+  return {
+    endpoint,
+    setEndpoint,
+    playerId,
+    setPlayerId,
+    syncStatus,
+    syncNow,
+  };
+}
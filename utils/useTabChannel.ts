@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { TabChannel, createTabChannel } from './tabSync';
+
+// Channel to the game's other tabs, open while the component is mounted (null until then)
+export function useTabChannel(): TabChannel | null {
+  const [channel, setChannel] = useState<TabChannel | null>(null);
+
+  useEffect(() => {
+    const opened = createTabChannel();
+    setChannel(opened);
+    return () => {
+      opened.close();
+      setChannel(null);
+    };
+  }, []);
+
+  return channel;
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react';
+import { TileTheme } from '../types';
+import { DEFAULT_TILE_THEME, parseTileTheme } from './tileTheme';
+
+const TILE_THEME_KEY = 'mkwaffle-tile-theme';
+const STATUS_MARKERS_KEY = 'mkwaffle-status-markers';
+
+export function useTileTheme() {
+  const [tileTheme, setTileTheme] = useState<TileTheme>(() => {
+    // Check localStorage on initial load
+    if (typeof window !== 'undefined') {
+      return parseTileTheme(localStorage.getItem(TILE_THEME_KEY));
+    }
+    return DEFAULT_TILE_THEME;
+  });
+
+  const [showMarkers, setShowMarkers] = useState<boolean>(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem(STATUS_MARKERS_KEY) === 'true';
+    }
+    return false;
+  });
+
+  useEffect(() => {
+    localStorage.setItem(TILE_THEME_KEY, tileTheme);
+  }, [tileTheme]);
+
+  useEffect(() => {
+    localStorage.setItem(STATUS_MARKERS_KEY, String(showMarkers));
+  }, [showMarkers]);
+
+  const toggleMarkers = () => {
+    setShowMarkers(prev => !prev);
+  };
+
+  return { tileTheme, setTileTheme, showMarkers, toggleMarkers };
+}
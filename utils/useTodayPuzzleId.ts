@@ -0,0 +1,38 @@
+/**
+ * React hook that follows the Amsterdam day while the app stays open
+ */
+
+import { useState, useEffect } from 'react';
+import { getDailySeed, getNextMidnight } from './daily';
+
+// Checked again a moment after midnight, so the new day has surely begun
+const MIDNIGHT_MARGIN_MS = 1000;
+
+// Number of today's puzzle, updated at midnight and whenever the page becomes visible again
+export function useTodayPuzzleId(): number {
+  const [todayPuzzleId, setTodayPuzzleId] = useState(getDailySeed);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    // Timers are paused or delayed in background tabs and on sleeping devices,
+    // hence the extra check when the page is shown again
+    const check = () => {
+      setTodayPuzzleId(getDailySeed());
+      clearTimeout(timer);
+      timer = setTimeout(check, getNextMidnight().getTime() - Date.now() + MIDNIGHT_MARGIN_MS);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    check();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  return todayPuzzleId;
+}
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { UndoMode } from '../types';
+
+const UNDO_MODE_KEY = 'mkwaffle-undo-mode';
+const UNDO_MODES: UndoMode[] = ['refund', 'penalty', 'disabled'];
+
+export function useUndoMode() {
+  const [undoMode, setUndoMode] = useState<UndoMode>(() => {
+    // Check localStorage on initial load
+    if (typeof window !== 'undefined') {
+      const stored = localStorage.getItem(UNDO_MODE_KEY);
+      if (stored !== null && (UNDO_MODES as string[]).includes(stored)) {
+        return stored as UndoMode;
+      }
+    }
+    return 'penalty';
+  });
+
+  useEffect(() => {
+    localStorage.setItem(UNDO_MODE_KEY, undoMode);
+  }, [undoMode]);
+
+  return { undoMode, setUndoMode };
+}
@@ -0,0 +1,152 @@
+/**
+ * React hook running one game with the rules of gameReducer: starting or
+ * resuming a puzzle, player moves, and saving after every move
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Coords, UndoMode } from '../types';
+import { getPuzzleById, getSolutionById } from './daily';
+import { verifySavedGame } from './integrity';
+import { resolveReceivedGame } from './playerData';
+import type { SavedGameState } from './statsDb';
+import {
+  GameAction,
+  GameState,
+  INITIAL_GAME_STATE,
+  canHint as canHintIn,
+  canUndo as canUndoIn,
+  createNewGame,
+  gameReducer,
+  toSavedState,
+} from './gameReducer';
+
+export interface UseWaffleGameOptions {
+  // Where moves are saved; a no-op for games that aren't kept
+  saveState: (state: SavedGameState) => Promise<void>;
+  undoMode: UndoMode;
+  hintCost: number;
+}
+
+export interface UseWaffleGameReturn {
+  game: GameState;
+  solution: string[][] | null;
+  canUndo: boolean;
+  canHint: boolean;
+  // Resume `saved` if it fits the puzzle, otherwise start the puzzle afresh (and save it)
+  startGame: (puzzleId: number, saved: SavedGameState | null) => { game: GameState; resumed: boolean };
+  // Take over a game of the puzzle on the board saved elsewhere (another tab, or pulled by a sync)
+  // if it is ahead of this one; true if it was taken over (see resolveReceivedGame)
+  adoptGame: (saved: SavedGameState) => boolean;
+  resetGame: () => void;
+  // The game a swap would lead to, without making it (for animations); null if not allowed
+  previewSwap: (from: Coords, to: Coords) => GameState | null;
+  // Each returns the game after the move, or null if the rules didn't allow it
+  swap: (from: Coords, to: Coords) => GameState | null;
+  undo: () => GameState | null;
+  requestHint: () => GameState | null;
+}
+
+const swapAction = ({ puzzleId }: GameState, from: Coords, to: Coords): GameAction | null =>
+  puzzleId === null
+    ? null
+    : { type: 'SWAP', from, to, solution: getSolutionById(puzzleId), timestamp: Date.now() };
+
+export function useWaffleGame({ saveState, undoMode, hintCost }: UseWaffleGameOptions): UseWaffleGameReturn {
+  const [game, setGame] = useState<GameState>(INITIAL_GAME_STATE);
+  // The latest game, for moves made from timers (animations) after a render or two
+  const gameRef = useRef(game);
+  const saveRef = useRef(saveState);
+
+  useEffect(() => {
+    saveRef.current = saveState;
+  }, [saveState]);
+
+  // Regenerated (and cached) from the puzzle number rather than kept in state,
+  // so it is neither saved nor shown among the component's state in dev tools
+  const solution = game.puzzleId === null ? null : getSolutionById(game.puzzleId);
+
+  const dispatch = useCallback((action: GameAction): GameState | null => {
+    const next = gameReducer(gameRef.current, action);
+    if (next === gameRef.current) return null;
+    gameRef.current = next;
+    setGame(next);
+    return next;
+  }, []);
+
+  // Apply a player's move and save the result
+  const play = useCallback((action: GameAction): GameState | null => {
+    const next = dispatch(action);
+    const saved = next && toSavedState(next);
+    if (saved) saveRef.current(saved);
+    return next;
+  }, [dispatch]);
+
+  const startGame = useCallback((puzzleId: number, saved: SavedGameState | null) => {
+    // A saved game that doesn't fit the puzzle (edited by hand) is replaced by a fresh one
+    const verified = saved && verifySavedGame(saved, getSolutionById(puzzleId));
+    if (saved && !verified) {
+      console.error(`Saved game for puzzle ${puzzleId} failed the integrity check, starting over`);
+    }
+
+    const state = verified ?? { ...createNewGame(puzzleId, getPuzzleById(puzzleId).initialGrid), updatedAt: Date.now() };
+    dispatch({ type: 'LOAD', state });
+    if (!verified) saveRef.current(state);
+    return { game: gameRef.current, resumed: !!verified };
+  }, [dispatch]);
+
+  const adoptGame = useCallback((saved: SavedGameState) => {
+    const current = toSavedState(gameRef.current);
+    if (!current || saved.puzzleId !== current.puzzleId) return false;
+
+    const action = resolveReceivedGame(current, saved);
+    // Ours is ahead: save it again, so it is what storage and the sender end up with
+    if (action === 'answer') saveRef.current(current);
+    if (action !== 'adopt') return false;
+
+    const verified = verifySavedGame(saved, getSolutionById(saved.puzzleId));
+    if (!verified) return false;
+    dispatch({ type: 'LOAD', state: verified });
+    return true;
+  }, [dispatch]);
+
+  const resetGame = useCallback(() => {
+    dispatch({ type: 'RESET' });
+  }, [dispatch]);
+
+  const previewSwap = useCallback((from: Coords, to: Coords) => {
+    const action = swapAction(gameRef.current, from, to);
+    const next = action && gameReducer(gameRef.current, action);
+    return next === gameRef.current ? null : next;
+  }, []);
+
+  const swap = useCallback((from: Coords, to: Coords) => {
+    const action = swapAction(gameRef.current, from, to);
+    return action && play(action);
+  }, [play]);
+
+  const undo = useCallback(() => {
+    const { puzzleId } = gameRef.current;
+    if (puzzleId === null) return null;
+    return play({ type: 'UNDO', undoMode, solution: getSolutionById(puzzleId), timestamp: Date.now() });
+  }, [play, undoMode]);
+
+  const requestHint = useCallback(() => {
+    const { puzzleId } = gameRef.current;
+    if (puzzleId === null) return null;
+    return play({ type: 'HINT', hintCost, solution: getSolutionById(puzzleId), timestamp: Date.now() });
+  }, [play, hintCost]);
+
+  return {
+    game,
+    solution,
+    canUndo: canUndoIn(game, undoMode),
+    canHint: canHintIn(game, hintCost),
+    startGame,
+    adoptGame,
+    resetGame,
+    previewSwap,
+    swap,
+    undo,
+    requestHint,
+  };
+}